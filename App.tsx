@@ -1,10 +1,45 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { FileText, ExternalLink, Download, RefreshCw, AlertTriangle, LayoutDashboard, ChevronLeft, ChevronRight, ArrowUpDown, ArrowUp, ArrowDown, PlayCircle, X } from 'lucide-react';
-import { parseAccountingFile, parseSefazFiles } from './services/parser';
-import { exportToPdf } from './services/pdfService';
-import { AccountingRecord, SefazRecord, ComparisonResult, MatchStatus, SummaryStats } from './types';
-import { FileUpload, Button, Card, StatusBadge } from './components/ui';
-import { extractDateFromKey } from './utils';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { FileText, ExternalLink, Download, RefreshCw, AlertTriangle, LayoutDashboard, PlayCircle, X, Columns, FileSpreadsheet, FolderOpen, FilePlus, FileDown, Filter } from 'lucide-react';
+import { findHeaderCandidates, bestAccountingSheet, guessAccountingMapping, mergeSefazFiles, sniffFileSide, SEFAZ_ADAPTERS, SEFAZ_ACCEPT } from './services/parser';
+import { startImportJob, isCancelled, ImportTask } from './services/importClient';
+import { loadColumnMapping, saveColumnMapping } from './services/mappingStore';
+import { exportToPdf, exportRunDiffToPdf, PdfGrouping } from './services/pdfService';
+import { exportToExcel, exportRunDiffToExcel } from './services/excelService';
+import { diffRuns } from './services/runDiff';
+import { applyAnnotations, annotationKey, countAnnotations } from './services/annotations';
+import { applyIgnoreRules, loadIgnoreRules, saveIgnoreRules, parseIgnoreRulesFile, exportIgnoreRulesFile } from './services/ignoreRules';
+import { listSessions, loadSession, saveSession, renameSession, duplicateSession, deleteSession, createSessionMeta, getLastSessionId, setLastSessionId, parseSessionFile, exportSessionFile, EMPTY_SESSION_DATA } from './services/sessionStore';
+import { computeStats, filterResults, sortResults, describeFilters, describePeriodRange, companyOf, statsByCompany, sharedCompanies, EMPTY_FILTERS, EMPTY_PERIOD } from './services/reconciler';
+import { AccountingRecord, ImportReport, AccountingSheet, AccountingWorkbook, AccountingColumnMapping, HeaderCandidate, SefazFileImport, ComparisonResult, MatchStatus, SummaryStats, SortConfig, SortDirection, ResultFilters, ValueTolerance, ToleranceMode, CompetencePeriod, MatchReview, NoteAnnotation, IgnoreRule, FileProgress, SessionData, SessionMeta, SessionSummary } from './types';
+import { FileUpload, Button, Card } from './components/ui';
+import { ColumnMappingDialog, ACCOUNTING_FIELDS } from './components/ColumnMappingDialog';
+import { InvalidKeysPanel } from './components/InvalidKeysPanel';
+import { UnknownSituationsPanel } from './components/UnknownSituationsPanel';
+import { ImportReportPanel } from './components/ImportReportPanel';
+import { ImportProgress } from './components/ImportProgress';
+import { ResultsTable, RESULT_COLUMNS, ResultColumnKey } from './components/ResultsTable';
+import { ResultFiltersBar } from './components/ResultFiltersBar';
+import { SessionsDialog } from './components/SessionsDialog';
+import { RunDiffPanel } from './components/RunDiffPanel';
+import { AnnotationDialog } from './components/AnnotationDialog';
+import { IgnoreRulesDialog } from './components/IgnoreRulesDialog';
+import { DropZone } from './components/DropZone';
+import { SefazFileList } from './components/SefazFileList';
+import { CompanyBreakdown } from './components/CompanyBreakdown';
+import { DashboardCharts } from './components/DashboardCharts';
+import { formatCnpj } from './utils';
+
+// Edits are written to the session store once the user pauses for this long
+const SESSION_SAVE_DELAY = 1000;
+
+const SITUATION_TILES: { key: keyof SummaryStats; label: string; box: string; text: string }[] = [
+  { key: 'denied', label: 'Denegadas', box: 'bg-red-50', text: 'text-red-700' },
+  { key: 'deniedButBooked', label: 'Denegadas Lançadas', box: 'bg-red-50 border border-red-300', text: 'text-red-800' },
+  { key: 'voided', label: 'Inutilizadas', box: 'bg-slate-50', text: 'text-slate-600' },
+  { key: 'voidedButBooked', label: 'Inutilizadas Lançadas', box: 'bg-slate-100 border border-slate-300', text: 'text-slate-800' },
+  { key: 'pendingCancellation', label: 'Cancel. Pendente', box: 'bg-amber-50', text: 'text-amber-700' },
+  { key: 'inContingency', label: 'Em Contingência', box: 'bg-indigo-50', text: 'text-indigo-700' }
+];
 
 // Logo Component replicating the provided image (3x4 grid, skewed)
 const UnicontaLogo = ({ className }: { className?: string }) => (
@@ -31,30 +66,51 @@ const UnicontaLogo = ({ className }: { className?: string }) => (
   </svg>
 );
 
-type SortDirection = 'asc' | 'desc';
-
-interface SortConfig {
-  key: keyof ComparisonResult | 'status';
-  direction: SortDirection;
-}
+// Sessions saved before SEFAZ files were kept one by one only have the merged records
+const legacySefazFile = (data: SessionData): SefazFileImport => ({
+  fileName: data.sefazFileName || 'Arquivos SEFAZ',
+  format: 'Sessão salva',
+  records: data.sefazData,
+  cancellations: [],
+  skipped: data.sefazReport?.skipped ?? [],
+  rowsRead: data.sefazReport?.files.reduce((sum, f) => sum + f.rowsRead, 0) ?? data.sefazData.length,
+  columns: {}
+});
 
 const App: React.FC = () => {
   // State
   const [accountingData, setAccountingData] = useState<AccountingRecord[]>([]);
-  const [sefazData, setSefazData] = useState<SefazRecord[]>([]);
+  // SEFAZ files as parsed one by one; the records compared are merged from them
+  const [sefazFiles, setSefazFiles] = useState<SefazFileImport[]>([]);
   const [results, setResults] = useState<ComparisonResult[]>([]);
   const [isCompared, setIsCompared] = useState(false);
   
-  // Pagination State
-  const [currentPage, setCurrentPage] = useState(1);
-  const itemsPerPage = 100;
-
-  // Sorting State
-  const [sortConfig, setSortConfig] = useState<SortConfig | null>(null);
+  // Sorting State (first entry is the primary sort)
+  const [sorts, setSorts] = useState<SortConfig[]>([]);
   
   // File names for UI feedback
   const [accountingFileName, setAccountingFileName] = useState('');
-  const [sefazFileName, setSefazFileName] = useState('');
+
+  // Accounting workbook, the sheet/header row picked from it and the column mapping applied
+  const [accountingWorkbook, setAccountingWorkbook] = useState<AccountingWorkbook | null>(null);
+  const [headerCandidates, setHeaderCandidates] = useState<HeaderCandidate[]>([]);
+  const [accountingSheet, setAccountingSheet] = useState<AccountingSheet | null>(null);
+  const [accountingMapping, setAccountingMapping] = useState<AccountingColumnMapping | null>(null);
+  const [showMapping, setShowMapping] = useState(false);
+
+  // Import reports (rows read, skipped, duplicated) per side
+  const [accountingReport, setAccountingReport] = useState<ImportReport | null>(null);
+
+  // Worker jobs in flight, with per-file progress, so they can be cancelled
+  const [accountingProgress, setAccountingProgress] = useState<FileProgress[]>([]);
+  const [sefazProgress, setSefazProgress] = useState<FileProgress[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const accountingTask = useRef<ImportTask<unknown> | null>(null);
+  const sefazTask = useRef<ImportTask<unknown> | null>(null);
+  const compareTask = useRef<ImportTask<unknown> | null>(null);
+
+  // SEFAZ source adapter ('auto' detects one per file)
+  const [sefazAdapterId, setSefazAdapterId] = useState('auto');
   
   // Errors
   const [error, setError] = useState<string | null>(null);
@@ -62,206 +118,508 @@ const App: React.FC = () => {
   // Tutorial Modal State
   const [showTutorial, setShowTutorial] = useState(false);
 
-  // Filters
-  const [filterText, setFilterText] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
+  // Filters and visible table columns
+  const [filters, setFilters] = useState<ResultFilters>(EMPTY_FILTERS);
+  const [visibleColumns, setVisibleColumns] = useState<ResultColumnKey[]>(RESULT_COLUMNS.map(c => c.key));
+
+  // Value comparison tolerance
+  const [valueTolerance, setValueTolerance] = useState<ValueTolerance>({ mode: 'cents', amount: 0 });
+
+  // Competence months under review; notes from other months are set apart as out of period
+  const [period, setPeriod] = useState<CompetencePeriod>(EMPTY_PERIOD);
+
+  // Client identification and layout of the PDF report
+  const [companyName, setCompanyName] = useState('');
+  const [companyCnpj, setCompanyCnpj] = useState('');
+  const [pdfGroupBy, setPdfGroupBy] = useState<PdfGrouping>('status');
+  const [pdfCharts, setPdfCharts] = useState(true);
+
+  // Auditor decisions on matches found by number instead of access key
+  const [matchReviews, setMatchReviews] = useState<Record<string, MatchReview>>({});
+
+  // Auditor justifications per result id, and the row being annotated
+  const [annotations, setAnnotations] = useState<Record<string, NoteAnnotation>>({});
+  const [annotating, setAnnotating] = useState<ComparisonResult | null>(null);
+
+  // Recurring exceptions set aside after every comparison (kept in the browser, not in the session)
+  const [ignoreRules, setIgnoreRules] = useState<IgnoreRule[]>(loadIgnoreRules);
+  const [showIgnoreRules, setShowIgnoreRules] = useState(false);
+
+  // Session the work is saved to (created on the first import) and the saved sessions list
+  const [session, setSession] = useState<SessionMeta | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [showSessions, setShowSessions] = useState(false);
+
+  // Earlier run (a saved session) the current results are compared with
+  const [previousRun, setPreviousRun] = useState<{ id: string; name: string; results: ComparisonResult[] } | null>(null);
+
+  const { records: sefazData, report: sefazReport } = useMemo(() => mergeSefazFiles(sefazFiles), [sefazFiles]);
+  const sefazFileName = sefazFiles.length > 1 ? `${sefazFiles.length} arquivos` : sefazFiles[0]?.fileName ?? '';
+
+  const sessionData: SessionData = useMemo(() => ({
+    accountingFileName,
+    sefazFileName,
+    accountingData,
+    sefazData,
+    sefazFiles,
+    accountingReport,
+    sefazReport,
+    accountingSheet: accountingSheet && { ...accountingSheet, rows: [] },
+    accountingMapping,
+    results,
+    isCompared,
+    matchReviews,
+    annotations,
+    valueTolerance,
+    period,
+    filters,
+    sorts,
+    companyName,
+    companyCnpj
+  }), [accountingFileName, sefazFileName, accountingData, sefazData, sefazFiles, accountingReport, sefazReport, accountingSheet, accountingMapping, results, isCompared, matchReviews, annotations, valueTolerance, period, filters, sorts, companyName, companyCnpj]);
+
+  // Reopen the session left open before the page was reloaded
+  useEffect(() => {
+    const lastId = getLastSessionId();
+    if (!lastId) return;
+    loadSession(lastId)
+      .then(saved => {
+        if (saved) {
+          applySessionData(saved.data);
+          setSession(saved);
+        }
+      })
+      .catch((err: any) => setError(`Erro ao abrir a sessão: ${err.message}`));
+  }, []);
+
+  // Autosave: the first import starts a session, later changes are written after a pause
+  useEffect(() => {
+    if (!session) {
+      if (accountingData.length > 0 || sefazData.length > 0) {
+        const meta = createSessionMeta(`Sessão de ${new Date().toLocaleDateString('pt-BR')}`);
+        setSession(meta);
+        setLastSessionId(meta.id);
+      }
+      return;
+    }
+    const timer = setTimeout(() => {
+      saveSession({ ...session, data: sessionData }).catch((err: any) => setError(`Erro ao salvar a sessão: ${err.message}`));
+    }, SESSION_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [session, sessionData]);
 
   // Handlers
+
+  // Runs a worker job, mirroring its per-file progress into state until it settles.
+  // A new job on the same side cancels the previous one.
+  const trackTask = async <T,>(
+    start: (onProgress: (fileName: string, fraction: number) => void) => ImportTask<T>,
+    fileNames: string[],
+    setProgress: React.Dispatch<React.SetStateAction<FileProgress[]>>,
+    taskRef: React.MutableRefObject<ImportTask<unknown> | null>
+  ): Promise<T> => {
+    taskRef.current?.cancel();
+    setProgress(fileNames.map(fileName => ({ fileName, fraction: 0 })));
+    const task = start((fileName, fraction) =>
+      setProgress(prev => prev.map(p => p.fileName === fileName ? { ...p, fraction } : p))
+    );
+    taskRef.current = task;
+    try {
+      return await task.promise;
+    } finally {
+      if (taskRef.current === task) {
+        taskRef.current = null;
+        setProgress([]);
+      }
+    }
+  };
+
+  const applySessionData = (data: SessionData) => {
+    [accountingTask, sefazTask, compareTask].forEach(task => task.current?.cancel());
+    setAccountingFileName(data.accountingFileName);
+    setAccountingData(data.accountingData);
+    setSefazFiles(data.sefazFiles.length > 0 || data.sefazData.length === 0 ? data.sefazFiles : [legacySefazFile(data)]);
+    setAccountingReport(data.accountingReport);
+    setAccountingSheet(data.accountingSheet);
+    setAccountingMapping(data.accountingMapping);
+    setResults(data.results);
+    setIsCompared(data.isCompared);
+    setMatchReviews(data.matchReviews);
+    setAnnotations(data.annotations);
+    setValueTolerance(data.valueTolerance);
+    setPeriod(data.period);
+    setFilters(data.filters);
+    setSorts(data.sorts);
+    setCompanyName(data.companyName);
+    setCompanyCnpj(data.companyCnpj);
+    // The workbook itself is not saved, so the column mapping can't be reviewed after reopening
+    setAccountingWorkbook(null);
+    setHeaderCandidates([]);
+    setShowMapping(false);
+    setPreviousRun(null);
+    setError(null);
+  };
+
+  const refreshSessions = async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (err: any) {
+      setError(`Erro ao listar as sessões: ${err.message}`);
+    }
+  };
+
+  const openSessionsDialog = async () => {
+    await refreshSessions();
+    setShowSessions(true);
+  };
+
+  const handleNewSession = () => {
+    applySessionData(EMPTY_SESSION_DATA);
+    setSession(null);
+    setLastSessionId(null);
+  };
+
+  const handleOpenSession = async (id: string) => {
+    try {
+      const saved = await loadSession(id);
+      if (!saved) throw new Error('sessão não encontrada.');
+      applySessionData(saved.data);
+      setSession(saved);
+      setLastSessionId(saved.id);
+      setShowSessions(false);
+    } catch (err: any) {
+      setError(`Erro ao abrir a sessão: ${err.message}`);
+    }
+  };
+
+  const handleRenameSession = async (id: string, name: string) => {
+    if (session?.id === id) {
+      // Saved by the autosave along with the rest of the session
+      setSession({ ...session, name });
+      setSessions(sessions.map(s => s.id === id ? { ...s, name } : s));
+      return;
+    }
+    try {
+      await renameSession(id, name);
+      await refreshSessions();
+    } catch (err: any) {
+      setError(`Erro ao renomear a sessão: ${err.message}`);
+    }
+  };
+
+  const handleDuplicateSession = async (id: string) => {
+    try {
+      await duplicateSession(id);
+      await refreshSessions();
+    } catch (err: any) {
+      setError(`Erro ao duplicar a sessão: ${err.message}`);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+      if (session?.id === id) handleNewSession();
+      await refreshSessions();
+    } catch (err: any) {
+      setError(`Erro ao excluir a sessão: ${err.message}`);
+    }
+  };
+
+  const handleImportSession = async (file: File) => {
+    try {
+      const imported = await saveSession(parseSessionFile(await file.text()));
+      await handleOpenSession(imported.id);
+    } catch (err: any) {
+      setError(`Erro ao importar a sessão: ${err.message}`);
+    }
+  };
+
+  const handleExportSession = () => {
+    if (session) exportSessionFile({ ...session, data: sessionData });
+  };
+
+  const handleSelectPreviousRun = async (id: string | null) => {
+    if (!id) {
+      setPreviousRun(null);
+      return;
+    }
+    try {
+      const saved = await loadSession(id);
+      if (!saved) throw new Error('sessão não encontrada.');
+      if (!saved.data.isCompared) throw new Error(`a sessão "${saved.name}" ainda não foi confrontada.`);
+      setPreviousRun({ id, name: saved.name, results: saved.data.results });
+    } catch (err: any) {
+      setError(`Erro ao abrir a execução anterior: ${err.message}`);
+    }
+  };
+
+  const runDiffNames = () => ({
+    previousRun: previousRun?.name ?? '',
+    currentRun: session?.name ?? 'Execução atual'
+  });
+
+  const handleExportRunDiffExcel = () => exportRunDiffToExcel(runDiff, runDiffNames());
+
+  const handleExportRunDiffPdf = () => exportRunDiffToPdf(runDiff, { ...runDiffNames(), companyName, companyCnpj });
+
+  const suggestMapping = (sheet: AccountingSheet) => loadColumnMapping(sheet.headers) ?? guessAccountingMapping(sheet.headers);
+
+  const applyAccountingMapping = async (sheet: AccountingSheet, mapping: AccountingColumnMapping, remember: boolean) => {
+    try {
+      setError(null);
+      const { records, report } = await trackTask(
+        onProgress => startImportJob({ type: 'buildAccounting', sheet, mapping }, onProgress),
+        [sheet.fileName], setAccountingProgress, accountingTask
+      );
+      setAccountingData(records);
+      setAccountingReport(report);
+      setAccountingSheet(sheet);
+      setAccountingMapping(mapping);
+      if (remember) saveColumnMapping(sheet.headers, mapping);
+      setShowMapping(false);
+      setIsCompared(false); // Reset comparison if new mapping
+    } catch (err: any) {
+      if (!isCancelled(err)) setError(`Erro no arquivo contábil: ${err.message}`);
+    }
+  };
+
   const handleAccountingUpload = async (files: File[]) => {
     if (files.length === 0) return;
     const file = files[0]; // Accounting usually one file
     try {
       setError(null);
-      const data = await parseAccountingFile(file);
-      setAccountingData(data);
+      const workbook = await trackTask(
+        onProgress => startImportJob({ type: 'readWorkbook', file }, onProgress),
+        [file.name], setAccountingProgress, accountingTask
+      );
+      const candidates = findHeaderCandidates(workbook);
+      const sheet = bestAccountingSheet(workbook, candidates);
+      setAccountingWorkbook(workbook);
+      setHeaderCandidates(candidates);
+      setAccountingSheet(sheet);
       setAccountingFileName(file.name);
+      setAccountingData([]);
+      setAccountingReport(null);
       setIsCompared(false); // Reset comparison if new file
+
+      // Known header layout: reuse the mapping confirmed last time, otherwise ask
+      // (also when several sheets/rows look like a header, so the user picks one)
+      const saved = loadColumnMapping(sheet.headers);
+      if (saved && candidates.length <= 1) {
+        await applyAccountingMapping(sheet, saved, false);
+      } else {
+        setAccountingMapping(suggestMapping(sheet));
+        setShowMapping(true);
+      }
     } catch (err: any) {
-      setError(`Erro no arquivo contábil: ${err.message}`);
+      if (!isCancelled(err)) setError(`Erro no arquivo contábil: ${err.message}`);
     }
   };
 
+  // Adds to the files already loaded; a file with the same name replaces the earlier one
   const handleSefazUpload = async (files: File[]) => {
     if (files.length === 0) return;
     try {
       setError(null);
-      const data = await parseSefazFiles(files);
-      setSefazData(data);
-      setSefazFileName(files.length > 1 ? `${files.length} arquivos selecionados` : files[0].name);
+      const parsed = await trackTask(
+        onProgress => startImportJob({ type: 'parseSefaz', files, adapterId: sefazAdapterId }, onProgress),
+        files.map(f => f.name), setSefazProgress, sefazTask
+      );
+      const names = new Set(parsed.map(f => f.fileName));
+      setSefazFiles(prev => [...prev.filter(f => !names.has(f.fileName)), ...parsed]);
       setIsCompared(false);
     } catch (err: any) {
-      setError(`Erro nos arquivos SEFAZ: ${err.message}`);
+      if (!isCancelled(err)) setError(`Erro nos arquivos SEFAZ: ${err.message}`);
+    }
+  };
+
+  const handleRemoveSefazFile = (fileName: string) => {
+    setSefazFiles(prev => prev.filter(f => f.fileName !== fileName));
+    setIsCompared(false);
+  };
+
+  const handleClearSefazFiles = () => {
+    sefazTask.current?.cancel();
+    setSefazFiles([]);
+    setIsCompared(false);
+  };
+
+  // Routes a mixed drop by content: the accounting spreadsheet to step 1, everything else from SEFAZ to step 2
+  const handleDroppedFiles = async (files: File[]) => {
+    const sides = await Promise.all(files.map(file => sniffFileSide(file).catch(() => null)));
+    const accounting = files.filter((_, i) => sides[i] === 'accounting');
+    const sefaz = files.filter((_, i) => sides[i] === 'sefaz');
+    const unknown = files.filter((_, i) => sides[i] === null);
+
+    await Promise.all([handleAccountingUpload(accounting), handleSefazUpload(sefaz)]);
+
+    const notes: string[] = [];
+    if (accounting.length > 1) {
+      notes.push(`Mais de uma planilha contábil; usada apenas ${accounting[0].name} (ignoradas: ${accounting.slice(1).map(f => f.name).join(', ')}).`);
+    }
+    if (unknown.length > 0) {
+      notes.push(`Arquivos não reconhecidos: ${unknown.map(f => f.name).join(', ')}.`);
+    }
+    if (notes.length > 0) setError(prev => [prev, ...notes].filter(Boolean).join(' '));
+  };
+
+  // Reconciles in the worker; resolves to null when cancelled
+  const runReconcile = async (reviews: Record<string, MatchReview>): Promise<ComparisonResult[] | null> => {
+    compareTask.current?.cancel();
+    const task = startImportJob({ type: 'reconcile', accounting: accountingData, sefaz: sefazData, options: { valueTolerance, matchReviews: reviews, period } });
+    compareTask.current = task;
+    setIsComparing(true);
+    try {
+      return (await task.promise).results;
+    } catch (err: any) {
+      if (!isCancelled(err)) setError(`Erro no confronto: ${err.message}`);
+      return null;
+    } finally {
+      if (compareTask.current === task) {
+        compareTask.current = null;
+        setIsComparing(false);
+      }
     }
   };
 
-  const handleCompare = () => {
+  const handleCompare = async () => {
     if (accountingData.length === 0 || sefazData.length === 0) {
       setError("Por favor, carregue ambos os arquivos antes de confrontar.");
       return;
     }
+    if (period.from && period.to && period.from > period.to) {
+      setError("A competência inicial é posterior à final.");
+      return;
+    }
 
-    // Create a typed Map for efficient lookups
-    const mapAccounting = new Map<string, AccountingRecord>();
-    accountingData.forEach(item => {
-      if (item.chave) {
-        mapAccounting.set(item.chave, item);
-      }
-    });
-    
-    const comparison: ComparisonResult[] = [];
-
-    // Iterate Sefaz records (Authority)
-    // We ONLY care about records present in SEFAZ as requested.
-    sefazData.forEach(sefaz => {
-      const match = mapAccounting.get(sefaz.chave);
-      let status = MatchStatus.MISSING_IN_ACCOUNTING;
-
-      if (sefaz.situacao.toLowerCase().includes('cancelada')) {
-        status = MatchStatus.CANCELLED;
-      } else if (match) {
-        status = MatchStatus.MATCHED;
-      }
-
-      comparison.push({
-        id: sefaz.chave,
-        chave: sefaz.chave,
-        numero: sefaz.numero,
-        serie: sefaz.serie,
-        // Use extracted date if still missing from parser
-        data: sefaz.data || extractDateFromKey(sefaz.chave),
-        valor: match ? match.valor : 0, 
-        situacaoSefaz: sefaz.situacao,
-        status: status,
-        sefazRecord: sefaz,
-        accountingRecord: match
-      });
-    });
+    setError(null);
+    const comparison = await runReconcile(matchReviews);
+    if (!comparison) return;
 
     setResults(comparison);
     setIsCompared(true);
-    setCurrentPage(1); // Reset to page 1 on new comparison
   };
 
-  const handleExportPDF = (onlyPending: boolean) => {
-    const dataToExport = onlyPending 
-      ? results.filter(r => r.status === MatchStatus.MISSING_IN_ACCOUNTING && !r.situacaoSefaz.toLowerCase().includes('cancelada'))
-      : results;
-    
-    exportToPdf(dataToExport, onlyPending ? 'Relatório de Pendências (Não Lançadas)' : 'Relatório Completo de Confronto');
+  const handleMatchReview = async (id: string, review: MatchReview) => {
+    const next = { ...matchReviews, [id]: review };
+    setMatchReviews(next);
+    // Rejected pairs free both sides, which may then pair with another candidate
+    const comparison = await runReconcile(next);
+    if (comparison) setResults(comparison);
   };
 
-  const handleSort = (key: keyof ComparisonResult) => {
-    let direction: SortDirection = 'asc';
-    if (sortConfig && sortConfig.key === key && sortConfig.direction === 'asc') {
-      direction = 'desc';
+  const handleSaveAnnotation = (result: ComparisonResult, annotation: NoteAnnotation | null) => {
+    const next = { ...annotations };
+    // Drops an entry saved under the row id by older versions
+    delete next[result.id];
+    if (annotation) next[annotationKey(result)] = annotation;
+    else delete next[annotationKey(result)];
+    setAnnotations(next);
+    setAnnotating(null);
+  };
+
+  const updateIgnoreRules = (rules: IgnoreRule[]) => {
+    setIgnoreRules(rules);
+    saveIgnoreRules(rules);
+  };
+
+  // Imported rules replace those with the same id and are added otherwise
+  const handleImportIgnoreRules = async (file: File) => {
+    try {
+      const imported = parseIgnoreRulesFile(await file.text());
+      const importedIds = new Set(imported.map(r => r.id));
+      updateIgnoreRules([...ignoreRules.filter(r => !importedIds.has(r.id)), ...imported]);
+    } catch (err: any) {
+      setError(`Erro ao importar as regras: ${err.message}`);
     }
-    setSortConfig({ key, direction });
   };
 
-  // Reset pagination when filters change
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [filterText, statusFilter]);
+  const handleExportPDF = (report: 'all' | 'pending' | 'cancelledBooked') => {
+    const base = { companyName, companyCnpj, groupBy: pdfGroupBy, charts: pdfCharts, period: describePeriodRange(period) || undefined };
+    const scope = filters.empresa ? [`Empresa: ${formatCnpj(filters.empresa)}`] : [];
+    if (report === 'pending') {
+      const pending = annotatedResults.filter(r => r.status === MatchStatus.MISSING_IN_ACCOUNTING);
+      exportToPdf(pending, { ...base, title: 'Relatório de Pendências (Não Lançadas)', filters: [`Status: ${MatchStatus.MISSING_IN_ACCOUNTING}`, ...scope] });
+    } else if (report === 'cancelledBooked') {
+      const cancelledBooked = annotatedResults.filter(r => r.status === MatchStatus.CANCELLED_BUT_BOOKED);
+      exportToPdf(cancelledBooked, { ...base, title: 'Relatório de Notas Canceladas mas Lançadas', filters: [`Status: ${MatchStatus.CANCELLED_BUT_BOOKED}`, ...scope] });
+    } else {
+      // The full report follows the table: same filters and order
+      exportToPdf(processedResults, { ...base, title: 'Relatório Completo de Confronto', filters: describeFilters(filters) });
+    }
+  };
 
-  // Stats
-  const stats: SummaryStats = useMemo(() => {
-    const s = {
-      total: results.length,
-      matched: 0,
-      missingInAccounting: 0,
-      cancelled: 0,
-      others: 0
-    };
-    results.forEach(r => {
-      if (r.status === MatchStatus.MATCHED) s.matched++;
-      else if (r.status === MatchStatus.MISSING_IN_ACCOUNTING) s.missingInAccounting++;
-      else if (r.status === MatchStatus.CANCELLED) s.cancelled++;
-      else s.others++;
+  const handleExportExcel = () => {
+    exportToExcel(annotatedResults, stats, {
+      accountingFiles: accountingReport?.files.map(f => f.fileName) ?? [],
+      sefazFiles: sefazReport?.files.map(f => f.fileName) ?? [],
+      accountingHeaders: accountingSheet?.headers
     });
-    return s;
-  }, [results]);
+  };
 
-  // Filtered AND Sorted Table Data
-  const processedResults = useMemo(() => {
-    // 1. Filter
-    let data = results.filter(r => {
-        const matchesText = 
-          r.numero?.toLowerCase().includes(filterText.toLowerCase()) || 
-          r.chave?.includes(filterText) ||
-          r.situacaoSefaz?.toLowerCase().includes(filterText.toLowerCase());
-        
-        const matchesStatus = statusFilter === 'all' || r.status === statusFilter;
-    
-        return matchesText && matchesStatus;
-      });
-
-    // 2. Sort
-    if (sortConfig) {
-      data = [...data].sort((a, b) => {
-        const aValue = a[sortConfig.key];
-        const bValue = b[sortConfig.key];
-
-        // Handle Dates (DD/MM/YYYY)
-        if (sortConfig.key === 'data') {
-           const parseDate = (dateStr: any) => {
-               if (!dateStr || typeof dateStr !== 'string') return 0;
-               const parts = dateStr.split('/');
-               if (parts.length !== 3) return 0;
-               return new Date(parseInt(parts[2]), parseInt(parts[1]) - 1, parseInt(parts[0])).getTime();
-           };
-           const dateA = parseDate(aValue);
-           const dateB = parseDate(bValue);
-           
-           if (dateA < dateB) return sortConfig.direction === 'asc' ? -1 : 1;
-           if (dateA > dateB) return sortConfig.direction === 'asc' ? 1 : -1;
-           return 0;
-        }
+  // Plain click sorts by the column alone; shift+click adds it (or flips it) as a tie-breaker
+  const handleSort = (key: keyof ComparisonResult, additive: boolean) => {
+    const current = sorts.find(s => s.key === key);
+    const direction: SortDirection = current?.direction === 'asc' ? 'desc' : 'asc';
+    if (!additive) {
+      setSorts([{ key, direction }]);
+    } else if (current) {
+      setSorts(sorts.map(s => s.key === key ? { key, direction } : s));
+    } else {
+      setSorts([...sorts, { key, direction }]);
+    }
+  };
 
-        // Handle numeric strings in numero/serie if possible, else string compare
-        if (aValue === bValue) return 0;
+  const toggleColumn = (key: ResultColumnKey) => {
+    setVisibleColumns(visibleColumns.includes(key) ? visibleColumns.filter(k => k !== key) : [...visibleColumns, key]);
+  };
 
-        // General String/Number compare
-        if (aValue == null) return 1;
-        if (bValue == null) return -1;
+  // Stats
+  // Results after the ignore rules
+  const ruledResults = useMemo(() => applyIgnoreRules(results, ignoreRules), [results, ignoreRules]);
+  const companyStats = useMemo(() => statsByCompany(ruledResults), [ruledResults]);
 
-        if (aValue < bValue) return sortConfig.direction === 'asc' ? -1 : 1;
-        if (aValue > bValue) return sortConfig.direction === 'asc' ? 1 : -1;
-        return 0;
-      });
-    }
+  // The selected company scopes the dashboard, the table and every export
+  const scopedResults = useMemo(
+    () => filters.empresa ? ruledResults.filter(r => companyOf(r) === filters.empresa) : ruledResults,
+    [ruledResults, filters.empresa]
+  );
+  const stats: SummaryStats = useMemo(() => computeStats(scopedResults), [scopedResults]);
 
-    return data;
-  }, [results, filterText, statusFilter, sortConfig]);
+  // Results with the auditor's annotations attached, for the table and the exports
+  const annotatedResults = useMemo(() => applyAnnotations(scopedResults, annotations), [scopedResults, annotations]);
 
-  // Pagination Logic (Applied AFTER sort)
-  const totalPages = Math.ceil(processedResults.length / itemsPerPage);
-  const paginatedData = processedResults.slice(
-    (currentPage - 1) * itemsPerPage,
-    currentPage * itemsPerPage
+  // Accounting and SEFAZ files from different clients share no CNPJ at all
+  const noSharedCompany = useMemo(
+    () => accountingData.some(a => a.chave && !a.keyError) && sefazData.length > 0 && sharedCompanies(accountingData, sefazData).length === 0,
+    [accountingData, sefazData]
   );
 
-  const startRecordIndex = (currentPage - 1) * itemsPerPage + 1;
-  const endRecordIndex = Math.min(currentPage * itemsPerPage, processedResults.length);
+  const ignoredByRule = useMemo(() => {
+    const counts: Record<string, number> = {};
+    ruledResults.forEach(r => {
+      if (r.ignoredBy) counts[r.ignoredBy] = (counts[r.ignoredBy] || 0) + 1;
+    });
+    return counts;
+  }, [ruledResults]);
+  const annotationCounts = useMemo(() => countAnnotations(annotatedResults), [annotatedResults]);
 
-  // Helper for Sort Icons
-  const SortIcon = ({ column }: { column: keyof ComparisonResult }) => {
-    if (sortConfig?.key !== column) return <ArrowUpDown size={14} className="text-gray-400 opacity-50 ml-1" />;
-    return sortConfig.direction === 'asc' 
-      ? <ArrowUp size={14} className="text-blue-600 ml-1" />
-      : <ArrowDown size={14} className="text-blue-600 ml-1" />;
-  };
+  // Both runs go through today's rules, so a new rule doesn't show up as a change
+  const runDiff = useMemo(
+    () => previousRun ? diffRuns(applyIgnoreRules(previousRun.results, ignoreRules), ruledResults) : [],
+    [previousRun, ruledResults, ignoreRules]
+  );
 
-  // Helper for Header Click
-  const ThSortable = ({ label, column }: { label: string, column: keyof ComparisonResult }) => (
-    <th 
-        className="px-6 py-3 cursor-pointer hover:bg-gray-100 transition-colors select-none group"
-        onClick={() => handleSort(column)}
-    >
-        <div className="flex items-center gap-1">
-            {label}
-            <SortIcon column={column} />
-        </div>
-    </th>
+  // Sessions available as previous run
+  useEffect(() => {
+    if (isCompared) refreshSessions();
+  }, [isCompared]);
+
+  // Filtered AND Sorted Table Data
+  const processedResults = useMemo(
+    () => sortResults(filterResults(annotatedResults, filters), sorts),
+    [annotatedResults, filters, sorts]
   );
 
   return (
@@ -288,6 +646,31 @@ const App: React.FC = () => {
 
       <main className="max-w-7xl mx-auto px-4 py-8 space-y-6">
         
+        {/* Session */}
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm px-4 py-3 flex flex-wrap items-center gap-3">
+            <label className="text-xs font-semibold text-gray-600">Sessão</label>
+            <input
+                type="text"
+                placeholder="Carregue os arquivos para iniciar uma sessão"
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 flex-1 min-w-[16rem] disabled:bg-gray-50"
+                value={session?.name ?? ''}
+                disabled={!session}
+                onChange={(e) => session && setSession({ ...session, name: e.target.value })}
+            />
+            <Button variant="outline" onClick={handleNewSession}>
+                <FilePlus size={16} /> Nova
+            </Button>
+            <Button variant="outline" onClick={openSessionsDialog}>
+                <FolderOpen size={16} /> Sessões
+            </Button>
+            <Button variant="outline" onClick={handleExportSession} disabled={!session}>
+                <FileDown size={16} /> Exportar JSON
+            </Button>
+            <Button variant="outline" onClick={() => setShowIgnoreRules(true)}>
+                <Filter size={16} /> Regras ({ignoreRules.filter(r => r.enabled).length})
+            </Button>
+        </div>
+
         {/* Error Banner */}
         {error && (
             <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-r-lg flex items-start gap-3 animate-pulse">
@@ -299,6 +682,9 @@ const App: React.FC = () => {
             </div>
         )}
 
+        {/* Drop zone for a mixed set of files */}
+        <DropZone onFiles={handleDroppedFiles} />
+
         {/* Input Section - Grid Layout */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             
@@ -321,33 +707,77 @@ const App: React.FC = () => {
                     onFileSelect={handleAccountingUpload}
                     fileName={accountingFileName}
                 />
+                {accountingSheet && accountingMapping && (
+                    <div className="text-xs text-gray-600 mb-2 flex items-start justify-between gap-2">
+                        <div className="space-y-0.5">
+                            <div className="text-gray-400">
+                                Planilha <strong>{accountingSheet.sheetName}</strong>, cabeçalho na linha {accountingSheet.headerRow + 1}
+                            </div>
+                            {ACCOUNTING_FIELDS.map(({ field, label }) => (
+                                <div key={field}>
+                                    {label}:{' '}
+                                    <strong>{accountingMapping[field] !== -1 ? accountingSheet.headers[accountingMapping[field]] || `Coluna ${accountingMapping[field] + 1}` : '—'}</strong>
+                                </div>
+                            ))}
+                        </div>
+                        {accountingWorkbook && (
+                            <button
+                                onClick={() => setShowMapping(true)}
+                                className="text-xs font-medium text-blue-600 hover:text-blue-800 flex items-center gap-1 transition-colors shrink-0"
+                            >
+                                <Columns size={14} />
+                                Ajustar colunas
+                            </button>
+                        )}
+                    </div>
+                )}
                 <div className="text-xs text-gray-500 mt-2 bg-yellow-50 p-2 rounded border border-yellow-100">
                     <strong>Importante:</strong> Na exportação selecione a opção: <em>Planilha com Cabeçalho</em>.
                 </div>
+                <ImportProgress progress={accountingProgress} onCancel={() => accountingTask.current?.cancel()} />
+                <ImportReportPanel report={accountingReport} />
             </Card>
 
             {/* Step 2 */}
-            <Card title="2. Arquivo(s) SEFAZ" subtitle="HTML Exportado do e-Fisco" icon={<ExternalLink size={20} />}>
+            <Card title="2. Arquivo(s) SEFAZ" subtitle="HTML do e-Fisco, CSV, XMLs (procNFe/eventos) ou ZIP" icon={<ExternalLink size={20} />}>
                  <div className="mb-4">
-                    <a 
-                        href="https://efisco.sefaz.pe.gov.br/" 
-                        target="_blank" 
-                        rel="noreferrer" 
-                        className="flex items-center justify-center gap-2 w-full bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 hover:border-blue-300 font-medium py-2 px-4 rounded-lg transition-all mb-4 text-sm"
+                    {SEFAZ_ADAPTERS.filter(a => a.portalUrl && (sefazAdapterId === 'auto' || a.id === sefazAdapterId)).map(adapter => (
+                        <a 
+                            key={adapter.id}
+                            href={adapter.portalUrl} 
+                            target="_blank" 
+                            rel="noreferrer" 
+                            className="flex items-center justify-center gap-2 w-full bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 hover:border-blue-300 font-medium py-2 px-4 rounded-lg transition-all mb-4 text-sm"
+                        >
+                            <ExternalLink size={16}/> {adapter.portalLabel}
+                        </a>
+                    ))}
+
+                    <label className="block text-xs font-semibold text-gray-600 mb-1">Formato</label>
+                    <select
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 mb-4"
+                        value={sefazAdapterId}
+                        onChange={(e) => setSefazAdapterId(e.target.value)}
                     >
-                        <ExternalLink size={16}/> Acessar e-Fisco (SEFAZ-PE)
-                    </a>
+                        <option value="auto">Detectar automaticamente</option>
+                        {SEFAZ_ADAPTERS.map(adapter => (
+                            <option key={adapter.id} value={adapter.id}>{adapter.label}</option>
+                        ))}
+                    </select>
                     
                     <FileUpload 
-                        label="Selecione o(s) arquivo(s) HTML" 
-                        accept=".html,.htm" 
+                        label="Adicione o(s) arquivo(s) da SEFAZ" 
+                        accept={SEFAZ_ADAPTERS.find(a => a.id === sefazAdapterId)?.accept ?? SEFAZ_ACCEPT} 
                         onFileSelect={handleSefazUpload}
                         fileName={sefazFileName}
                         multiple={true}
                     />
                      <div className="text-xs text-gray-400 mt-2">
-                        Permite múltiplos arquivos (duplicatas serão removidas)
+                        Novos arquivos se somam aos já carregados (duplicatas serão removidas; eventos de cancelamento atualizam a situação)
                     </div>
+                    <ImportProgress progress={sefazProgress} onCancel={() => sefazTask.current?.cancel()} />
+                    <SefazFileList files={sefazFiles} onRemove={handleRemoveSefazFile} onClear={handleClearSefazFiles} />
+                    <ImportReportPanel report={sefazReport} />
                  </div>
             </Card>
 
@@ -358,18 +788,87 @@ const App: React.FC = () => {
                         <span>Contábil: <strong>{accountingData.length}</strong> regs</span>
                         <span>SEFAZ: <strong>{sefazData.length}</strong> regs</span>
                     </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Tolerância de valor</label>
+                        <div className="flex gap-2">
+                            <input
+                                type="number"
+                                min={0}
+                                step={valueTolerance.mode === 'cents' ? 1 : 0.1}
+                                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 w-full"
+                                value={valueTolerance.amount}
+                                onChange={(e) => setValueTolerance({ ...valueTolerance, amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            />
+                            <select
+                                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                value={valueTolerance.mode}
+                                onChange={(e) => setValueTolerance({ ...valueTolerance, mode: e.target.value as ToleranceMode })}
+                            >
+                                <option value="cents">centavos</option>
+                                <option value="percent">%</option>
+                            </select>
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Competência (mês/ano)</label>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="month"
+                                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 w-full"
+                                value={period.from}
+                                onChange={(e) => setPeriod({ ...period, from: e.target.value })}
+                                title="Primeiro mês"
+                            />
+                            <span className="text-xs text-gray-500">a</span>
+                            <input
+                                type="month"
+                                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 w-full"
+                                value={period.to}
+                                onChange={(e) => setPeriod({ ...period, to: e.target.value })}
+                                title="Último mês"
+                            />
+                        </div>
+                        <p className="text-[11px] text-gray-400 mt-1">Em branco, todas as notas contam como do período.</p>
+                    </div>
                     <Button 
                         onClick={handleCompare} 
-                        disabled={accountingData.length === 0 || sefazData.length === 0}
+                        disabled={accountingData.length === 0 || sefazData.length === 0 || isComparing}
                         className="w-full"
                         variant="secondary"
                     >
-                        Executar Confronto
+                        {isComparing ? 'Confrontando...' : 'Executar Confronto'}
                     </Button>
+                    {isComparing && (
+                        <button
+                            onClick={() => compareTask.current?.cancel()}
+                            className="text-xs text-gray-500 hover:text-red-600 transition-colors"
+                        >
+                            Cancelar confronto
+                        </button>
+                    )}
                 </div>
             </Card>
         </div>
 
+        {/* No CNPJ in common between the accounting and SEFAZ files */}
+        {noSharedCompany && (
+            <div className="bg-amber-50 border-l-4 border-amber-500 p-4 rounded-r-lg flex items-start gap-3">
+                <AlertTriangle className="text-amber-500 shrink-0" />
+                <div>
+                    <h3 className="text-amber-800 font-semibold">Nenhum CNPJ em comum</h3>
+                    <p className="text-amber-700 text-sm">
+                        Nenhuma nota do arquivo contábil tem emitente presente nos arquivos da SEFAZ. Confira se os arquivos são do mesmo cliente e do mesmo período.
+                    </p>
+                </div>
+            </div>
+        )}
+
+        {/* Invalid Keys */}
+        <InvalidKeysPanel accountingData={accountingData} sefazData={sefazData} />
+
+        {/* SEFAZ situations the mapping doesn't recognise */}
+        <UnknownSituationsPanel sefazData={sefazData} />
+
         {/* Results Section */}
         {isCompared && (
             <div className="animate-fade-in space-y-6">
@@ -379,7 +878,7 @@ const App: React.FC = () => {
                     <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
                         <LayoutDashboard size={20} className="text-slate-500"/> Resumo do Período
                     </h3>
-                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-10 gap-4">
                         <div className="p-4 bg-gray-50 rounded-lg text-center">
                             <div className="text-sm text-gray-500">Total Analisado</div>
                             <div className="text-2xl font-bold text-gray-800">{stats.total}</div>
@@ -388,133 +887,240 @@ const App: React.FC = () => {
                             <div className="text-sm text-emerald-600 font-medium">Lançadas</div>
                             <div className="text-2xl font-bold text-emerald-700">{stats.matched}</div>
                         </div>
+                        <div className="p-4 bg-teal-50 rounded-lg text-center">
+                            <div className="text-sm text-teal-600 font-medium">Por Número</div>
+                            <div className="text-2xl font-bold text-teal-700">{stats.matchedByNumber}</div>
+                        </div>
                         <div className="p-4 bg-red-50 rounded-lg text-center">
                             <div className="text-sm text-red-600 font-medium">Faltantes</div>
                             <div className="text-2xl font-bold text-red-700">{stats.missingInAccounting}</div>
                         </div>
+                        <div className="p-4 bg-yellow-50 rounded-lg text-center">
+                            <div className="text-sm text-yellow-700 font-medium">Sem SEFAZ</div>
+                            <div className="text-2xl font-bold text-yellow-800">{stats.missingInSefaz}</div>
+                        </div>
+                        <div className="p-4 bg-purple-50 rounded-lg text-center">
+                            <div className="text-sm text-purple-600 font-medium">Valor Divergente</div>
+                            <div className="text-2xl font-bold text-purple-700">{stats.valueDivergence}</div>
+                        </div>
                         <div className="p-4 bg-orange-50 rounded-lg text-center">
                             <div className="text-sm text-orange-600 font-medium">Canceladas</div>
                             <div className="text-2xl font-bold text-orange-700">{stats.cancelled}</div>
                         </div>
+                        <div className="p-4 bg-rose-50 rounded-lg text-center border border-rose-200">
+                            <div className="text-sm text-rose-700 font-medium">Canceladas Lançadas</div>
+                            <div className="text-2xl font-bold text-rose-700">{stats.cancelledButBooked}</div>
+                        </div>
+                        <div className="p-4 bg-slate-50 rounded-lg text-center">
+                            <div className="text-sm text-slate-500 font-medium">Desconsideradas</div>
+                            <div className="text-2xl font-bold text-slate-600">{stats.ignoredByRule}</div>
+                        </div>
+                        <div className="p-4 bg-sky-50 rounded-lg text-center">
+                            <div className="text-sm text-sky-600 font-medium">Fora do Período</div>
+                            <div className="text-2xl font-bold text-sky-700">{stats.outOfPeriod}</div>
+                        </div>
+                        {/* Rarer SEFAZ situations only get a tile when the period has them */}
+                        {SITUATION_TILES.filter(tile => stats[tile.key] > 0).map(tile => (
+                            <div key={tile.key} className={`p-4 rounded-lg text-center ${tile.box}`}>
+                                <div className={`text-sm font-medium ${tile.text}`}>{tile.label}</div>
+                                <div className={`text-2xl font-bold ${tile.text}`}>{stats[tile.key]}</div>
+                            </div>
+                        ))}
+                        {stats.others > 0 && (
+                            <div className="p-4 bg-gray-50 rounded-lg text-center" title="Status não reconhecidos por esta versão (sessões antigas)">
+                                <div className="text-sm text-gray-500 font-medium">Outros</div>
+                                <div className="text-2xl font-bold text-gray-600">{stats.others}</div>
+                            </div>
+                        )}
                     </div>
+                    <div className="mt-4 pt-4 border-t border-gray-100 flex flex-wrap gap-x-6 gap-y-2 text-sm text-gray-600">
+                        <span className="font-semibold text-gray-700">Anotações:</span>
+                        <button className="hover:text-blue-700" onClick={() => setFilters({ ...filters, annotation: 'annotated' })}>
+                            Anotadas <strong>{annotationCounts.annotated}</strong>
+                        </button>
+                        <button className="hover:text-blue-700" onClick={() => setFilters({ ...filters, annotation: 'resolved' })}>
+                            Resolvidas <strong className="text-emerald-700">{annotationCounts.resolved}</strong>
+                        </button>
+                        <button className="hover:text-blue-700" onClick={() => setFilters({ ...filters, annotation: 'ignored' })}>
+                            Ignoradas <strong className="text-slate-500">{annotationCounts.ignored}</strong>
+                        </button>
+                        <button
+                            className="hover:text-blue-700"
+                            onClick={() => setFilters({ ...filters, annotation: 'unsolved', statuses: [MatchStatus.MISSING_IN_ACCOUNTING] })}
+                        >
+                            Não Lançadas sem solução <strong className="text-red-700">{annotationCounts.openPending}</strong>
+                        </button>
+                    </div>
+                    <DashboardCharts results={annotatedResults} onFilter={(patch) => setFilters({ ...filters, ...patch })} />
+                    <CompanyBreakdown
+                        companies={companyStats}
+                        selected={filters.empresa}
+                        onSelect={(empresa) => setFilters({ ...filters, empresa })}
+                    />
                 </div>
 
                 {/* Main Table Card */}
                 <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden flex flex-col">
-                    <div className="p-5 border-b border-gray-100 flex flex-col md:flex-row justify-between items-center gap-4">
-                        <h2 className="font-semibold text-lg text-gray-800">Detalhamento</h2>
-                        
-                        <div className="flex flex-wrap items-center gap-3 w-full md:w-auto">
-                            <input 
-                                type="text" 
-                                placeholder="Buscar nota, chave..." 
-                                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 w-full md:w-64"
-                                value={filterText}
-                                onChange={(e) => setFilterText(e.target.value)}
-                            />
-                            <select 
-                                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                                value={statusFilter}
-                                onChange={(e) => setStatusFilter(e.target.value)}
-                            >
-                                <option value="all">Todos os Status</option>
-                                <option value={MatchStatus.MATCHED}>Lançadas</option>
-                                <option value={MatchStatus.MISSING_IN_ACCOUNTING}>Não Lançadas</option>
-                                <option value={MatchStatus.CANCELLED}>Canceladas</option>
-                            </select>
+                    <div className="p-5 border-b border-gray-100 space-y-4">
+                        <div className="flex justify-between items-center gap-4">
+                            <h2 className="font-semibold text-lg text-gray-800">Detalhamento</h2>
+                            <details className="relative">
+                                <summary className="cursor-pointer list-none text-sm font-medium text-blue-600 hover:text-blue-800 flex items-center gap-1">
+                                    <Columns size={16} /> Colunas
+                                </summary>
+                                <div className="absolute right-0 z-20 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg p-2 w-56 space-y-1">
+                                    {RESULT_COLUMNS.map(c => (
+                                        <label key={c.key} className="flex items-center gap-2 text-sm text-gray-700 px-2 py-1 rounded hover:bg-gray-50 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={visibleColumns.includes(c.key)}
+                                                onChange={() => toggleColumn(c.key)}
+                                            />
+                                            {c.label}
+                                        </label>
+                                    ))}
+                                </div>
+                            </details>
                         </div>
+                        <ResultFiltersBar results={scopedResults} filters={filters} onChange={setFilters} />
                     </div>
 
-                    <div className="overflow-x-auto">
-                        <table className="w-full text-sm text-left">
-                            <thead className="bg-gray-50 text-gray-600 font-medium border-b border-gray-200">
-                                <tr>
-                                    <ThSortable label="Número" column="numero" />
-                                    <ThSortable label="Série" column="serie" />
-                                    <ThSortable label="Data" column="data" />
-                                    <ThSortable label="Chave de Acesso" column="chave" />
-                                    <ThSortable label="Situação SEFAZ" column="situacaoSefaz" />
-                                    <ThSortable label="Status" column="status" />
-                                </tr>
-                            </thead>
-                            <tbody className="divide-y divide-gray-100">
-                                {paginatedData.map((item) => (
-                                    <tr key={item.id} className="hover:bg-slate-50 transition-colors">
-                                        <td className="px-6 py-3 font-medium text-gray-900">{item.numero}</td>
-                                        <td className="px-6 py-3 text-gray-600">{item.serie}</td>
-                                        <td className="px-6 py-3 text-gray-600">{item.data}</td>
-                                        <td className="px-6 py-3">
-                                            <span className="font-mono text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded truncate max-w-[150px] inline-block" title={item.chave}>
-                                                {item.chave}
-                                            </span>
-                                        </td>
-                                        <td className="px-6 py-3">
-                                            <span className={`text-xs font-semibold ${item.situacaoSefaz.includes('Autorizada') ? 'text-blue-600' : 'text-orange-600'}`}>
-                                                {item.situacaoSefaz}
-                                            </span>
-                                        </td>
-                                        <td className="px-6 py-3">
-                                            <StatusBadge status={item.status} />
-                                        </td>
-                                    </tr>
-                                ))}
-                                {paginatedData.length === 0 && (
-                                    <tr>
-                                        <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
-                                            Nenhum registro encontrado com os filtros atuais.
-                                        </td>
-                                    </tr>
-                                )}
-                            </tbody>
-                        </table>
+                    <ResultsTable
+                        results={processedResults}
+                        visibleColumns={visibleColumns}
+                        sorts={sorts}
+                        onSort={handleSort}
+                        onMatchReview={handleMatchReview}
+                        onAnnotate={setAnnotating}
+                    />
+
+                    <div className="p-4 bg-gray-50 border-t border-gray-200 flex flex-col md:flex-row items-center justify-between gap-2 text-sm text-gray-600">
+                        <div>
+                            Exibindo <strong>{processedResults.length}</strong> de <strong>{scopedResults.length}</strong> resultados
+                        </div>
+                        <div className="text-xs text-gray-400">Shift+clique no cabeçalho ordena por várias colunas</div>
                     </div>
-                    
-                    {/* Pagination Footer */}
-                    {processedResults.length > 0 && (
-                        <div className="p-4 bg-gray-50 border-t border-gray-200 flex flex-col md:flex-row items-center justify-between gap-4">
-                            <div className="text-sm text-gray-600">
-                                Exibindo <strong>{startRecordIndex}</strong> a <strong>{endRecordIndex}</strong> de <strong>{processedResults.length}</strong> resultados
+
+                    <div className="p-4 bg-white border-t border-gray-200 flex flex-wrap gap-3 justify-between items-end rounded-b-xl">
+                        <div className="flex flex-wrap gap-3 items-end">
+                            <div>
+                                <label className="block text-xs font-semibold text-gray-600 mb-1">Empresa</label>
+                                <input
+                                    type="text"
+                                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 w-56"
+                                    value={companyName}
+                                    onChange={(e) => setCompanyName(e.target.value)}
+                                />
                             </div>
-                            
-                            <div className="flex items-center gap-2">
-                                <Button 
-                                    variant="outline" 
-                                    onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-                                    disabled={currentPage === 1}
-                                    className="px-3 py-1.5 h-9"
-                                >
-                                    <ChevronLeft size={16} /> Anterior
-                                </Button>
-                                
-                                <span className="text-sm font-medium text-gray-700 px-2">
-                                    Página {currentPage} de {totalPages}
-                                </span>
-                                
-                                <Button 
-                                    variant="outline" 
-                                    onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                                    disabled={currentPage === totalPages}
-                                    className="px-3 py-1.5 h-9"
+                            <div>
+                                <label className="block text-xs font-semibold text-gray-600 mb-1">CNPJ</label>
+                                <input
+                                    type="text"
+                                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 w-44"
+                                    value={companyCnpj}
+                                    onChange={(e) => setCompanyCnpj(e.target.value)}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-semibold text-gray-600 mb-1">Agrupar PDF por</label>
+                                <select
+                                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    value={pdfGroupBy}
+                                    onChange={(e) => setPdfGroupBy(e.target.value as PdfGrouping)}
                                 >
-                                    Próximo <ChevronRight size={16} />
-                                </Button>
+                                    <option value="status">Status</option>
+                                    <option value="month">Mês</option>
+                                    <option value="none">Sem agrupamento</option>
+                                </select>
                             </div>
+                            <label className="flex items-center gap-2 text-sm text-gray-700 py-2 cursor-pointer">
+                                <input type="checkbox" checked={pdfCharts} onChange={(e) => setPdfCharts(e.target.checked)} />
+                                Gráficos no PDF
+                            </label>
                         </div>
-                    )}
-
-                    <div className="p-4 bg-white border-t border-gray-200 flex flex-wrap gap-3 justify-end rounded-b-xl">
-                        <Button variant="outline" onClick={() => handleExportPDF(false)}>
+                        <div className="flex flex-wrap gap-3">
+                        <Button variant="outline" onClick={handleExportExcel}>
+                            <FileSpreadsheet size={16} /> Excel
+                        </Button>
+                        <Button variant="outline" onClick={() => handleExportPDF('all')}>
                             <Download size={16} /> PDF Completo
                         </Button>
-                        <Button variant="primary" onClick={() => handleExportPDF(true)}>
+                        <Button
+                            variant="outline"
+                            onClick={() => handleExportPDF('cancelledBooked')}
+                            disabled={stats.cancelledButBooked === 0}
+                            className="text-rose-700 border-rose-300 hover:bg-rose-50"
+                        >
+                            <Download size={16} /> Canceladas Lançadas
+                        </Button>
+                        <Button variant="primary" onClick={() => handleExportPDF('pending')}>
                             <Download size={16} /> Apenas Pendências
                         </Button>
+                        </div>
                     </div>
                 </div>
+
+                {/* Month-over-month */}
+                <RunDiffPanel
+                    sessions={sessions.filter(s => s.id !== session?.id)}
+                    previousRunId={previousRun?.id ?? null}
+                    onSelectPreviousRun={handleSelectPreviousRun}
+                    entries={runDiff}
+                    onExportExcel={handleExportRunDiffExcel}
+                    onExportPdf={handleExportRunDiffPdf}
+                />
             </div>
         )}
       </main>
 
+      {/* Column Mapping Modal */}
+      {showMapping && accountingWorkbook && accountingSheet && accountingMapping && (
+        <ColumnMappingDialog
+          workbook={accountingWorkbook}
+          candidates={headerCandidates}
+          initialSheet={accountingSheet}
+          initialMapping={accountingMapping}
+          suggestMapping={suggestMapping}
+          onConfirm={(sheet, mapping) => applyAccountingMapping(sheet, mapping, true)}
+          onCancel={() => setShowMapping(false)}
+        />
+      )}
+
+      {/* Annotation Modal */}
+      {annotating && (
+        <AnnotationDialog
+          result={annotating}
+          onSave={(annotation) => handleSaveAnnotation(annotating, annotation)}
+          onCancel={() => setAnnotating(null)}
+        />
+      )}
+
+      {/* Ignore Rules Modal */}
+      {showIgnoreRules && (
+        <IgnoreRulesDialog
+          rules={ignoreRules}
+          matchCounts={ignoredByRule}
+          onChange={updateIgnoreRules}
+          onImport={handleImportIgnoreRules}
+          onExport={() => exportIgnoreRulesFile(ignoreRules)}
+          onClose={() => setShowIgnoreRules(false)}
+        />
+      )}
+
+      {/* Sessions Modal */}
+      {showSessions && (
+        <SessionsDialog
+          sessions={sessions}
+          currentId={session?.id}
+          onOpen={handleOpenSession}
+          onRename={handleRenameSession}
+          onDuplicate={handleDuplicateSession}
+          onDelete={handleDeleteSession}
+          onImport={handleImportSession}
+          onClose={() => setShowSessions(false)}
+        />
+      )}
+
       {/* Tutorial Modal */}
       {showTutorial && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
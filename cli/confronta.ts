@@ -0,0 +1,181 @@
+import { readFile, writeFile, readdir, stat, mkdir } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import * as XLSX from 'xlsx';
+import { ValueTolerance, IgnoreRule, CompetencePeriod } from '../types';
+import { sniffFileSide } from '../services/parser';
+import { competenceOf } from '../utils';
+import { parseIgnoreRulesFile } from '../services/ignoreRules';
+import { buildPdfReport } from '../services/pdfService';
+import { describePeriodRange } from '../services/reconciler';
+import { buildExcelWorkbook } from '../services/excelService';
+import {
+  reconcileFiles, summarizeRun, exitCodeFor, parseManifest, buildSummaryCsv,
+  BatchRun, BatchRunOptions, BatchSummaryRow, EXIT_ERROR
+} from '../services/batch';
+
+// Command-line entry point: npm run confronta -- run ...
+const USAGE = `Uso:
+  confronta run --contabil <planilha> --sefaz <arquivo|pasta> [--sefaz ...] --out <relatorio.pdf|.xlsx> [--out ...]
+  confronta run --manifesto <clientes.json> --out <pasta>
+
+Opções:
+  --empresa <nome>       Nome da empresa no cabeçalho do relatório (um cliente)
+  --cnpj <cnpj>          CNPJ da empresa no cabeçalho do relatório (um cliente)
+  --regras <regras.json> Regras de desconsideração exportadas pelo aplicativo
+  --tolerancia <valor>   Diferença aceita entre os valores: centavos (5) ou percentual (0,5%)
+  --competencia <mês>    Competência do confronto: 01/2024 ou 01/2024-03/2024; notas de outros meses ficam "Fora do período"
+
+Com --manifesto, cada cliente gera <pasta>/<cliente>.pdf e .xlsx, e <pasta>/resumo.csv consolida todos.
+
+Códigos de saída: 0 sem pendências, 1 há notas não lançadas, 2 erro em algum arquivo.`;
+
+const toFile = async (path: string) => new File([await readFile(path)], basename(path));
+
+// A folder contributes every SEFAZ file below it; anything else there (spreadsheets, PDFs) is skipped
+const listSefazFiles = async (path: string): Promise<File[]> => {
+  if (!(await stat(path)).isDirectory()) return [await toFile(path)];
+  const files: File[] = [];
+  for (const entry of (await readdir(path)).sort()) {
+    if (entry.startsWith('.')) continue;
+    const child = join(path, entry);
+    if ((await stat(child)).isDirectory()) {
+      files.push(...await listSefazFiles(child));
+      continue;
+    }
+    const file = await toFile(child);
+    if (await sniffFileSide(file) === 'sefaz') files.push(file);
+  }
+  return files;
+};
+
+const parseTolerance = (value?: string): ValueTolerance | undefined => {
+  if (!value) return undefined;
+  const amount = parseFloat(value.replace(',', '.'));
+  if (!Number.isFinite(amount) || amount < 0) throw new Error(`Tolerância inválida: ${value}`);
+  return { mode: value.trim().endsWith('%') ? 'percent' : 'cents', amount };
+};
+
+// MM/YYYY or MM/YYYY-MM/YYYY into YYYY-MM bounds
+const parseCompetence = (value?: string): CompetencePeriod | undefined => {
+  if (!value) return undefined;
+  const months = value.split(/\s*(?:-|a)\s*(?=\d{1,2}\/)/).map(month => competenceOf(month.trim()));
+  if (months.length > 2 || months.some(month => !month)) throw new Error(`Competência inválida: ${value} (use 01/2024 ou 01/2024-03/2024)`);
+  return { from: months[0], to: months[months.length - 1] };
+};
+
+const slugify = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') || 'cliente';
+
+const writeReport = async (path: string, run: BatchRun, companyName: string, companyCnpj: string, period?: string) => {
+  await mkdir(dirname(path), { recursive: true });
+  const format = extname(path).toLowerCase();
+  if (format === '.pdf') {
+    const doc = buildPdfReport(run.results, { title: 'Relatório Completo de Confronto', companyName, companyCnpj, period, groupBy: 'status', charts: true });
+    await writeFile(path, Buffer.from(doc.output('arraybuffer')));
+  } else if (format === '.xlsx') {
+    const workbook = buildExcelWorkbook(run.results, run.stats, {
+      accountingFiles: run.accountingReport.files.map(f => f.fileName),
+      sefazFiles: run.sefazReport.files.map(f => f.fileName)
+    });
+    await writeFile(path, XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+  } else {
+    throw new Error(`Formato de relatório não suportado: ${path} (use .pdf ou .xlsx)`);
+  }
+};
+
+const runClient = async (
+  name: string,
+  cnpj: string,
+  accountingPath: string,
+  sefazPaths: string[],
+  outputs: string[],
+  options: BatchRunOptions
+): Promise<BatchSummaryRow> => {
+  try {
+    const sefaz = (await Promise.all(sefazPaths.map(listSefazFiles))).flat();
+    const run = await reconcileFiles(await toFile(accountingPath), sefaz, options);
+    const period = options.period && describePeriodRange(options.period);
+    for (const output of outputs) await writeReport(output, run, name, cnpj, period || undefined);
+    run.unknownSituations.forEach(u =>
+      console.warn(`${name || basename(accountingPath)}: situação SEFAZ não reconhecida "${u.situacao}" (${u.count} notas), tratada como Autorizada`)
+    );
+    const row = summarizeRun(name, cnpj, run);
+    console.log(`${name || basename(accountingPath)}: ${run.stats.total} notas, ${run.stats.missingInAccounting} não lançadas (${row.outcome})`);
+    return row;
+  } catch (err: any) {
+    const message = err.code === 'ENOENT' ? `Arquivo não encontrado: ${err.path}` : err.message;
+    console.error(`${name || basename(accountingPath)}: ${message}`);
+    return { client: name, cnpj, outcome: 'erro', error: message };
+  }
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      contabil: { type: 'string' },
+      sefaz: { type: 'string', multiple: true },
+      out: { type: 'string', multiple: true },
+      manifesto: { type: 'string' },
+      empresa: { type: 'string' },
+      cnpj: { type: 'string' },
+      regras: { type: 'string' },
+      tolerancia: { type: 'string' },
+      competencia: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help || positionals[0] !== 'run') {
+    console.log(USAGE);
+    return values.help ? 0 : EXIT_ERROR;
+  }
+
+  const ignoreRules: IgnoreRule[] = values.regras ? parseIgnoreRulesFile(await readFile(values.regras, 'utf-8')) : [];
+  const options: BatchRunOptions = {
+    valueTolerance: parseTolerance(values.tolerancia),
+    ignoreRules,
+    period: parseCompetence(values.competencia)
+  };
+  const outputs = values.out ?? [];
+
+  if (values.manifesto) {
+    if (outputs.length !== 1) throw new Error('Com --manifesto, informe uma pasta em --out.');
+    const baseDir = dirname(resolve(values.manifesto));
+    const clients = parseManifest(await readFile(values.manifesto, 'utf-8'));
+    const rows: BatchSummaryRow[] = [];
+    // One client at a time: a month of XMLs for 60 companies does not fit in memory at once
+    for (const client of clients) {
+      const reportBase = join(outputs[0], slugify(client.name));
+      rows.push(await runClient(
+        client.name,
+        client.cnpj,
+        resolve(baseDir, client.contabil),
+        client.sefaz.map(path => resolve(baseDir, path)),
+        [`${reportBase}.pdf`, `${reportBase}.xlsx`],
+        options
+      ));
+    }
+    await mkdir(outputs[0], { recursive: true });
+    await writeFile(join(outputs[0], 'resumo.csv'), buildSummaryCsv(rows));
+    return exitCodeFor(rows);
+  }
+
+  if (!values.contabil || !values.sefaz?.length || outputs.length === 0) {
+    console.log(USAGE);
+    return EXIT_ERROR;
+  }
+  const row = await runClient(values.empresa ?? '', values.cnpj ?? '', values.contabil, values.sefaz, outputs, options);
+  return exitCodeFor([row]);
+};
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch((err: any) => {
+    console.error(err.message);
+    process.exitCode = EXIT_ERROR;
+  });
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { MessageSquare, X } from 'lucide-react';
+import { AnnotationResolution, ComparisonResult, NoteAnnotation } from '../types';
+import { JUSTIFICATION_CATEGORIES, RESOLUTION_LABELS } from '../services/annotations';
+import { formatCurrency } from '../utils';
+import { Button } from './ui';
+
+interface AnnotationDialogProps {
+    result: ComparisonResult;
+    // null removes the annotation
+    onSave: (annotation: NoteAnnotation | null) => void;
+    onCancel: () => void;
+}
+
+export const AnnotationDialog: React.FC<AnnotationDialogProps> = ({ result, onSave, onCancel }) => {
+    const [category, setCategory] = useState(result.annotation?.category ?? '');
+    const [comment, setComment] = useState(result.annotation?.comment ?? '');
+    const [resolution, setResolution] = useState<AnnotationResolution>(result.annotation?.resolution ?? 'open');
+
+    const isEmpty = !category && !comment.trim() && resolution === 'open';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh]">
+                <div className="flex justify-between items-center p-4 border-b border-gray-100 bg-gray-50">
+                    <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+                        <MessageSquare size={20} className="text-blue-600"/> Anotação — Nota {result.numero}
+                    </h3>
+                    <button
+                        onClick={onCancel}
+                        className="text-gray-400 hover:text-gray-700 hover:bg-gray-100 p-1 rounded-full transition-colors"
+                    >
+                        <X size={24} />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-4 overflow-auto">
+                    <div className="text-xs text-gray-500 space-y-0.5">
+                        <div>{result.emitente || 'Emitente não informado'} — {formatCurrency(result.valor)}</div>
+                        <div className="font-mono">{result.chave || '-'}</div>
+                        <div>Status: <strong>{result.status}</strong></div>
+                    </div>
+
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Justificativa</label>
+                        <select
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            value={category}
+                            onChange={(e) => setCategory(e.target.value)}
+                        >
+                            <option value="">— Sem categoria —</option>
+                            {JUSTIFICATION_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Comentário</label>
+                        <textarea
+                            rows={4}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            value={comment}
+                            onChange={(e) => setComment(e.target.value)}
+                        />
+                    </div>
+
+                    <div className="flex gap-4 text-sm text-gray-700">
+                        {(Object.keys(RESOLUTION_LABELS) as AnnotationResolution[]).map(r => (
+                            <label key={r} className="flex items-center gap-2 cursor-pointer">
+                                <input type="radio" name="resolution" checked={resolution === r} onChange={() => setResolution(r)} />
+                                {RESOLUTION_LABELS[r]}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="p-4 bg-gray-50 border-t border-gray-200 flex justify-between items-center gap-3">
+                    {result.annotation ? (
+                        <button onClick={() => onSave(null)} className="text-xs font-medium text-red-600 hover:text-red-800">
+                            Remover anotação
+                        </button>
+                    ) : <span />}
+                    <div className="flex gap-3">
+                        <Button variant="outline" onClick={onCancel}>Cancelar</Button>
+                        <Button
+                            variant="secondary"
+                            disabled={isEmpty}
+                            onClick={() => onSave({ category, comment: comment.trim(), resolution, updatedAt: new Date().toISOString() })}
+                        >
+                            Salvar
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
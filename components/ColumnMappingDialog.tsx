@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Columns, X } from 'lucide-react';
+import { AccountingSheet, AccountingWorkbook, AccountingColumnMapping, AccountingField, HeaderCandidate } from '../types';
+import { buildAccountingSheet, ACCOUNTING_HEADER_SCAN_ROWS } from '../services/parser';
+import { Button } from './ui';
+
+export const ACCOUNTING_FIELDS: { field: AccountingField; label: string; required?: boolean }[] = [
+    { field: 'chave', label: 'Chave de Acesso', required: true },
+    { field: 'numero', label: 'Número da Nota' },
+    { field: 'valor', label: 'Valor' },
+    { field: 'data', label: 'Data de Emissão' }
+];
+
+const PREVIEW_ROWS = 5;
+
+interface ColumnMappingDialogProps {
+    workbook: AccountingWorkbook;
+    candidates: HeaderCandidate[];
+    initialSheet: AccountingSheet;
+    initialMapping: AccountingColumnMapping;
+    // Mapping to start from when the user picks another sheet or header row
+    suggestMapping: (sheet: AccountingSheet) => AccountingColumnMapping;
+    onConfirm: (sheet: AccountingSheet, mapping: AccountingColumnMapping) => void;
+    onCancel: () => void;
+}
+
+export const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({ workbook, candidates, initialSheet, initialMapping, suggestMapping, onConfirm, onCancel }) => {
+    const [sheet, setSheet] = useState<AccountingSheet>(initialSheet);
+    const [mapping, setMapping] = useState<AccountingColumnMapping>(initialMapping);
+
+    const selectStructure = (sheetName: string, headerRow: number) => {
+        const next = buildAccountingSheet(workbook, sheetName, headerRow);
+        setSheet(next);
+        setMapping(suggestMapping(next));
+    };
+
+    const isCandidate = (sheetName: string, headerRow: number) =>
+        candidates.some(c => c.sheetName === sheetName && c.headerRow === headerRow);
+    const worksheetRows = workbook.sheets.find(s => s.name === sheet.sheetName)?.rows || [];
+    const headerRowOptions = Array.from({ length: Math.min(worksheetRows.length, ACCOUNTING_HEADER_SCAN_ROWS) }, (_, r) => r);
+    const rowPreview = (r: number) => Array.from(worksheetRows[r] || [], (c: any) => (c ?? '').toString()).filter(Boolean).slice(0, 4).join(' | ');
+
+    const fieldForColumn = (idx: number) => ACCOUNTING_FIELDS.find(f => mapping[f.field] === idx);
+    const columnLabel = (idx: number) => sheet.headers[idx] || `Coluna ${idx + 1}`;
+    const columnCount = Math.max(sheet.headers.length, ...sheet.rows.slice(0, PREVIEW_ROWS).map(r => r?.length || 0));
+    const columns = Array.from({ length: columnCount }, (_, idx) => idx);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl overflow-hidden flex flex-col max-h-[90vh]">
+                <div className="flex justify-between items-center p-4 border-b border-gray-100 bg-gray-50">
+                    <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+                        <Columns size={20} className="text-blue-600"/> Mapeamento de Colunas — {sheet.fileName}
+                    </h3>
+                    <button
+                        onClick={onCancel}
+                        className="text-gray-400 hover:text-gray-700 hover:bg-gray-100 p-1 rounded-full transition-colors"
+                    >
+                        <X size={24} />
+                    </button>
+                </div>
+
+                <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4 border-b border-gray-100 bg-gray-50/50">
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Planilha</label>
+                        <select
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            value={sheet.sheetName}
+                            onChange={(e) => {
+                                const best = candidates.find(c => c.sheetName === e.target.value);
+                                selectStructure(e.target.value, best ? best.headerRow : 0);
+                            }}
+                        >
+                            {workbook.sheets.map(ws => (
+                                <option key={ws.name} value={ws.name}>
+                                    {ws.name}{candidates.some(c => c.sheetName === ws.name) ? ' ★' : ''}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Linha do cabeçalho</label>
+                        <select
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            value={sheet.headerRow}
+                            onChange={(e) => selectStructure(sheet.sheetName, parseInt(e.target.value, 10))}
+                        >
+                            {headerRowOptions.map(r => (
+                                <option key={r} value={r}>
+                                    Linha {r + 1}{isCandidate(sheet.sheetName, r) ? ' ★' : ''} — {rowPreview(r) || '(vazia)'}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    {candidates.length > 1 && (
+                        <p className="md:col-span-2 text-xs text-gray-500">
+                            ★ {candidates.length} possíveis cabeçalhos encontrados. Confira a planilha e a linha antes de confirmar.
+                        </p>
+                    )}
+                </div>
+
+                <div className="p-4 grid grid-cols-2 md:grid-cols-4 gap-4 border-b border-gray-100">
+                    {ACCOUNTING_FIELDS.map(({ field, label, required }) => (
+                        <div key={field}>
+                            <label className="block text-xs font-semibold text-gray-600 mb-1">
+                                {label}{required && <span className="text-red-500"> *</span>}
+                            </label>
+                            <select
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                value={mapping[field]}
+                                onChange={(e) => setMapping({ ...mapping, [field]: parseInt(e.target.value, 10) })}
+                            >
+                                <option value={-1}>— Não utilizar —</option>
+                                {columns.map(idx => (
+                                    <option key={idx} value={idx}>{columnLabel(idx)}</option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="overflow-auto flex-1">
+                    <table className="w-full text-xs text-left">
+                        <thead className="bg-gray-50 text-gray-600 font-medium border-b border-gray-200 sticky top-0">
+                            <tr>
+                                {columns.map(idx => {
+                                    const assigned = fieldForColumn(idx);
+                                    return (
+                                        <th key={idx} className={`px-3 py-2 whitespace-nowrap ${assigned ? 'bg-blue-50 text-blue-800' : ''}`}>
+                                            <div>{columnLabel(idx)}</div>
+                                            {assigned && <div className="text-[10px] font-semibold uppercase tracking-wide">{assigned.label}</div>}
+                                        </th>
+                                    );
+                                })}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {sheet.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                                <tr key={r}>
+                                    {columns.map(idx => (
+                                        <td key={idx} className={`px-3 py-2 whitespace-nowrap text-gray-600 ${fieldForColumn(idx) ? 'bg-blue-50/50' : ''}`}>
+                                            {row?.[idx]?.toString() ?? ''}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="p-4 bg-gray-50 border-t border-gray-200 flex justify-between items-center gap-3">
+                    <span className="text-xs text-gray-500">O mapeamento será lembrado para arquivos com o mesmo cabeçalho.</span>
+                    <div className="flex gap-3">
+                        <Button variant="outline" onClick={onCancel}>Cancelar</Button>
+                        <Button variant="secondary" onClick={() => onConfirm(sheet, mapping)} disabled={mapping.chave === -1}>
+                            Confirmar Colunas
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
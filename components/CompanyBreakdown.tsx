@@ -0,0 +1,71 @@
+import React from 'react';
+import { Building2 } from 'lucide-react';
+import { CompanyStats } from '../services/reconciler';
+import { formatCnpj } from '../utils';
+
+interface CompanyBreakdownProps {
+    companies: CompanyStats[];
+    // CNPJ the dashboard, table and exports are scoped to; '' for every company
+    selected: string;
+    onSelect: (cnpj: string) => void;
+}
+
+const companyLabel = (cnpj: string) => cnpj ? formatCnpj(cnpj) : 'Sem empresa identificada';
+
+export const CompanyBreakdown: React.FC<CompanyBreakdownProps> = ({ companies, selected, onSelect }) => {
+    if (companies.length < 2 && !selected) return null;
+
+    return (
+        <div className="mt-4 pt-4 border-t border-gray-100">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-3">
+                <span className="font-semibold text-gray-700 text-sm flex items-center gap-2">
+                    <Building2 size={16} className="text-slate-500" /> Por empresa (CNPJ)
+                </span>
+                <select
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    value={selected}
+                    onChange={(e) => onSelect(e.target.value)}
+                >
+                    <option value="">Todas as empresas ({companies.length})</option>
+                    {companies.map(c => (
+                        <option key={c.cnpj} value={c.cnpj}>{companyLabel(c.cnpj)} — {c.stats.total} notas</option>
+                    ))}
+                </select>
+            </div>
+            <div className="overflow-auto max-h-64 border border-gray-100 rounded-lg">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-gray-50 text-gray-600 font-medium border-b border-gray-200 sticky top-0">
+                        <tr>
+                            <th className="px-3 py-2">CNPJ</th>
+                            <th className="px-3 py-2 text-right">Total</th>
+                            <th className="px-3 py-2 text-right">Lançadas</th>
+                            <th className="px-3 py-2 text-right">Faltantes</th>
+                            <th className="px-3 py-2 text-right">Sem SEFAZ</th>
+                            <th className="px-3 py-2 text-right">Divergentes</th>
+                            <th className="px-3 py-2 text-right">Canceladas</th>
+                            <th className="px-3 py-2 text-right">Canc. Lançadas</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {companies.map(({ cnpj, stats }) => (
+                            <tr
+                                key={cnpj}
+                                onClick={() => onSelect(selected === cnpj ? '' : cnpj)}
+                                className={`cursor-pointer ${selected === cnpj ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                            >
+                                <td className="px-3 py-1.5 font-mono text-xs text-gray-700">{companyLabel(cnpj)}</td>
+                                <td className="px-3 py-1.5 text-right font-medium">{stats.total}</td>
+                                <td className="px-3 py-1.5 text-right text-emerald-700">{stats.matched + stats.matchedByNumber}</td>
+                                <td className="px-3 py-1.5 text-right text-red-700">{stats.missingInAccounting}</td>
+                                <td className="px-3 py-1.5 text-right text-yellow-700">{stats.missingInSefaz}</td>
+                                <td className="px-3 py-1.5 text-right text-purple-700">{stats.valueDivergence}</td>
+                                <td className="px-3 py-1.5 text-right text-orange-700">{stats.cancelled}</td>
+                                <td className="px-3 py-1.5 text-right text-rose-700">{stats.cancelledButBooked}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
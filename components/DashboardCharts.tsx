@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { ComparisonResult, MatchStatus, ResultFilters } from '../types';
+import { statusDistribution, monthlyTimeline, pendingByIssuer, topIssuers, statusFilter, monthFilter, issuerFilter, IssuerPending } from '../services/dashboardCharts';
+import { STATUS_COLORS, OTHER_COLOR, RGB } from '../services/pdfService';
+import { formatCurrency, formatCnpj, formatDate } from '../utils';
+
+interface DashboardChartsProps {
+    results: ComparisonResult[];
+    // Merged into the table filters when a bar is clicked
+    onFilter: (patch: Partial<ResultFilters>) => void;
+}
+
+// Same colours as the PDF report
+const rgb = ([r, g, b]: RGB) => `rgb(${r}, ${g}, ${b})`;
+const BOOKED = rgb(STATUS_COLORS[MatchStatus.MATCHED]);
+const PENDING = rgb(STATUS_COLORS[MatchStatus.MISSING_IN_ACCOUNTING]);
+
+const percent = (value: number, max: number) => `${max > 0 ? Math.max(1, value / max * 100) : 0}%`;
+
+const issuerLabel = (issuer: IssuerPending) => issuer.emitente || formatCnpj(issuer.cnpj) || 'Sem chave válida';
+
+const ChartTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <h4 className="text-sm font-semibold text-gray-700 mb-3">{children}</h4>
+);
+
+export const DashboardCharts: React.FC<DashboardChartsProps> = ({ results, onFilter }) => {
+    const [issuerRanking, setIssuerRanking] = useState<'count' | 'value'>('value');
+
+    const slices = useMemo(() => statusDistribution(results), [results]);
+    const months = useMemo(() => monthlyTimeline(results), [results]);
+    const issuers = useMemo(() => pendingByIssuer(results), [results]);
+    const ranked = useMemo(() => topIssuers(issuers, issuerRanking), [issuers, issuerRanking]);
+
+    if (results.length === 0) return null;
+
+    const maxSlice = Math.max(...slices.map(s => s.count));
+    const maxMonth = Math.max(0, ...months.map(m => Math.max(m.booked, m.pending)));
+    const maxIssuer = Math.max(0, ...ranked.map(i => issuerRanking === 'count' ? i.count : i.value));
+
+    return (
+        <div className="mt-4 pt-4 border-t border-gray-100">
+            <span className="font-semibold text-gray-700 text-sm flex items-center gap-2 mb-4">
+                <BarChart3 size={16} className="text-slate-500" /> Gráficos
+                <span className="font-normal text-xs text-gray-400">clique numa barra para filtrar o detalhamento</span>
+            </span>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div>
+                    <ChartTitle>Notas por status</ChartTitle>
+                    <div className="space-y-1.5">
+                        {slices.map(slice => {
+                            const filter = statusFilter(slice);
+                            return (
+                                <button
+                                    key={slice.label}
+                                    onClick={() => filter && onFilter(filter)}
+                                    disabled={!filter}
+                                    title={filter ? `Filtrar: ${slice.label}` : 'Status não reconhecido por esta versão'}
+                                    className="w-full flex items-center gap-2 text-xs text-gray-600 rounded px-1 py-0.5 hover:bg-slate-50 disabled:cursor-default disabled:hover:bg-transparent"
+                                >
+                                    <span className="w-36 shrink-0 truncate text-left">{slice.label}</span>
+                                    <span className="flex-1 h-3 bg-gray-100 rounded">
+                                        <span
+                                            className="block h-full rounded"
+                                            style={{ width: percent(slice.count, maxSlice), backgroundColor: rgb((slice.status && STATUS_COLORS[slice.status]) || OTHER_COLOR) }}
+                                        />
+                                    </span>
+                                    <span className="w-10 shrink-0 text-right font-semibold text-gray-800">{slice.count}</span>
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                <div>
+                    <ChartTitle>Lançadas x Não lançadas por mês</ChartTitle>
+                    {months.length === 0 ? (
+                        <p className="text-xs text-gray-400">Nenhuma nota lançada ou pendente com data.</p>
+                    ) : (
+                        <>
+                            <div className="flex gap-3 text-xs text-gray-500 mb-2">
+                                <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: BOOKED }} /> Lançadas</span>
+                                <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: PENDING }} /> Não lançadas</span>
+                            </div>
+                            <div className="overflow-x-auto">
+                                <div className="flex items-end gap-3 h-40 border-b border-gray-200" style={{ minWidth: months.length * 44 }}>
+                                    {months.map(m => (
+                                        <div key={m.month} className="flex-1 h-full flex items-end justify-center gap-1">
+                                            {([['booked', m.booked, BOOKED, 'lançadas'], ['pending', m.pending, PENDING, 'não lançadas']] as const).map(([side, count, color, label]) => (
+                                                <button
+                                                    key={side}
+                                                    onClick={() => onFilter(monthFilter(m.month, side))}
+                                                    title={`${formatDate(m.month)}: ${count} ${label}`}
+                                                    className="w-4 rounded-t hover:opacity-80"
+                                                    style={{ height: count > 0 ? percent(count, maxMonth) : 0, backgroundColor: color }}
+                                                />
+                                            ))}
+                                        </div>
+                                    ))}
+                                </div>
+                                <div className="flex gap-3 mt-1" style={{ minWidth: months.length * 44 }}>
+                                    {months.map(m => (
+                                        <span key={m.month} className="flex-1 text-center text-[11px] text-gray-500">{formatDate(m.month)}</span>
+                                    ))}
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                <div>
+                    <div className="flex justify-between items-start gap-2">
+                        <ChartTitle>Emitentes com notas não lançadas</ChartTitle>
+                        <select
+                            className="px-2 py-1 border border-gray-300 rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            value={issuerRanking}
+                            onChange={(e) => setIssuerRanking(e.target.value as 'count' | 'value')}
+                        >
+                            <option value="value">Por valor (R$)</option>
+                            <option value="count">Por quantidade</option>
+                        </select>
+                    </div>
+                    {ranked.length === 0 ? (
+                        <p className="text-xs text-gray-400">Nenhuma nota não lançada.</p>
+                    ) : (
+                        <div className="space-y-1.5">
+                            {ranked.map(issuer => (
+                                <button
+                                    key={issuer.cnpj}
+                                    onClick={() => onFilter(issuerFilter(issuer))}
+                                    title={`${issuerLabel(issuer)} (${formatCnpj(issuer.cnpj)}): ${issuer.count} notas, ${formatCurrency(issuer.value)}`}
+                                    className="w-full flex items-center gap-2 text-xs text-gray-600 rounded px-1 py-0.5 hover:bg-slate-50"
+                                >
+                                    <span className="w-32 shrink-0 truncate text-left">{issuerLabel(issuer)}</span>
+                                    <span className="flex-1 h-3 bg-gray-100 rounded">
+                                        <span
+                                            className="block h-full rounded"
+                                            style={{ width: percent(issuerRanking === 'count' ? issuer.count : issuer.value, maxIssuer), backgroundColor: PENDING }}
+                                        />
+                                    </span>
+                                    <span className="w-24 shrink-0 text-right font-semibold text-gray-800">
+                                        {issuerRanking === 'count' ? `${issuer.count} notas` : formatCurrency(issuer.value)}
+                                    </span>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { UploadCloud, Files, FolderOpen } from 'lucide-react';
+
+// Reads every file below a dropped folder; readEntries returns at most 100 entries per call
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+    }
+    if (!entry.isDirectory) return [];
+
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        children.push(...batch);
+    }
+    return (await Promise.all(children.map(readEntry))).flat();
+};
+
+const droppedFiles = async (data: DataTransfer): Promise<File[]> => {
+    // Entries must be taken synchronously, before the drop event returns
+    const entries = Array.from(data.items)
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+    if (entries.length === 0) return Array.from(data.files);
+    return (await Promise.all(entries.map(readEntry))).flat();
+};
+
+interface DropZoneProps {
+    onFiles: (files: File[]) => void;
+    disabled?: boolean;
+}
+
+export const DropZone: React.FC<DropZoneProps> = ({ onFiles, disabled }) => {
+    const [isOver, setIsOver] = useState(false);
+
+    const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsOver(false);
+        if (disabled) return;
+        const files = await droppedFiles(e.dataTransfer);
+        if (files.length > 0) onFiles(files);
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files.length > 0) onFiles(Array.from(e.target.files));
+        e.target.value = '';
+    };
+
+    const pickerClass = "flex items-center gap-2 px-3 py-1.5 rounded-lg border bg-white text-slate-700 border-gray-300 hover:border-blue-500 hover:shadow-sm transition-all cursor-pointer select-none text-sm font-medium";
+
+    return (
+        <div
+            onDragOver={(e) => {
+                e.preventDefault();
+                if (!disabled) setIsOver(true);
+            }}
+            onDragLeave={() => setIsOver(false)}
+            onDrop={handleDrop}
+            className={`rounded-xl border-2 border-dashed p-6 flex flex-col md:flex-row items-center justify-between gap-4 transition-colors
+                ${isOver ? 'border-blue-500 bg-blue-50' : 'border-gray-300 bg-white'}
+                ${disabled ? 'opacity-50' : ''}
+            `}
+        >
+            <div className="flex items-center gap-3 text-gray-600">
+                <UploadCloud size={32} className={isOver ? 'text-blue-600' : 'text-gray-400'} />
+                <div>
+                    <div className="font-semibold text-gray-800">Arraste aqui os arquivos ou uma pasta</div>
+                    <div className="text-xs text-gray-500">
+                        A planilha contábil e os arquivos da SEFAZ são reconhecidos pelo conteúdo e enviados para o lado certo.
+                    </div>
+                </div>
+            </div>
+            <div className="flex gap-2 shrink-0">
+                <label className={pickerClass}>
+                    <Files size={16} /> Escolher arquivos
+                    <input type="file" className="hidden" multiple onChange={handleChange} disabled={disabled} />
+                </label>
+                <label className={pickerClass}>
+                    <FolderOpen size={16} /> Escolher pasta
+                    <input
+                        type="file"
+                        className="hidden"
+                        // Not in React's input attributes, so set directly
+                        ref={el => el?.setAttribute('webkitdirectory', '')}
+                        onChange={handleChange}
+                        disabled={disabled}
+                    />
+                </label>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Filter, Plus, Trash2, Upload, Download, X } from 'lucide-react';
+import { IgnoreRule } from '../types';
+import { createIgnoreRule } from '../services/ignoreRules';
+import { Button } from './ui';
+
+const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// Form fields as typed; lists are one item per line (commas and semicolons also split)
+interface RuleDraft {
+    name: string;
+    cnpjs: string;
+    series: string;
+    situacao: string;
+    valueMin: string;
+    valueMax: string;
+    chaves: string;
+}
+
+const toDraft = (rule: IgnoreRule): RuleDraft => ({
+    name: rule.name,
+    cnpjs: rule.cnpjs.join('\n'),
+    series: rule.series.join('\n'),
+    situacao: rule.situacao,
+    valueMin: rule.valueMin?.toString() ?? '',
+    valueMax: rule.valueMax?.toString() ?? '',
+    chaves: rule.chaves.join('\n')
+});
+
+const splitList = (text: string) => text.split(/[\n,;]+/).map(s => s.trim()).filter(Boolean);
+
+const parseBound = (value: string): number | undefined => {
+    const number = parseFloat(value.replace(',', '.'));
+    return Number.isFinite(number) ? number : undefined;
+};
+
+const fromDraft = (rule: IgnoreRule, draft: RuleDraft): IgnoreRule => ({
+    ...rule,
+    name: draft.name.trim() || 'Regra sem nome',
+    cnpjs: splitList(draft.cnpjs),
+    series: splitList(draft.series),
+    situacao: draft.situacao.trim(),
+    valueMin: parseBound(draft.valueMin),
+    valueMax: parseBound(draft.valueMax),
+    chaves: splitList(draft.chaves)
+});
+
+interface IgnoreRulesDialogProps {
+    rules: IgnoreRule[];
+    // Rows each rule set aside in the current results, by rule name
+    matchCounts: Record<string, number>;
+    onChange: (rules: IgnoreRule[]) => void;
+    onImport: (file: File) => void;
+    onExport: () => void;
+    onClose: () => void;
+}
+
+export const IgnoreRulesDialog: React.FC<IgnoreRulesDialogProps> = ({ rules, matchCounts, onChange, onImport, onExport, onClose }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(rules[0]?.id ?? null);
+    const [draft, setDraft] = useState<RuleDraft | null>(rules[0] ? toDraft(rules[0]) : null);
+
+    const selected = rules.find(r => r.id === selectedId) ?? null;
+
+    const select = (rule: IgnoreRule) => {
+        setSelectedId(rule.id);
+        setDraft(toDraft(rule));
+    };
+
+    const addRule = () => {
+        const rule = createIgnoreRule(`Regra ${rules.length + 1}`);
+        onChange([...rules, rule]);
+        select(rule);
+    };
+
+    const saveDraft = () => {
+        if (!selected || !draft) return;
+        onChange(rules.map(r => r.id === selected.id ? fromDraft(selected, draft) : r));
+    };
+
+    const removeRule = (rule: IgnoreRule) => {
+        if (!window.confirm(`Excluir a regra "${rule.name}"?`)) return;
+        onChange(rules.filter(r => r.id !== rule.id));
+        if (rule.id === selectedId) {
+            setSelectedId(null);
+            setDraft(null);
+        }
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onImport(file);
+        e.target.value = '';
+    };
+
+    const field = (key: keyof RuleDraft, label: string, hint?: string, multiline = false) => draft && (
+        <div>
+            <label className="block text-xs font-semibold text-gray-600 mb-1">{label}</label>
+            {multiline ? (
+                <textarea rows={3} className={`${inputClass} font-mono text-xs`} value={draft[key]} onChange={(e) => setDraft({ ...draft, [key]: e.target.value })} />
+            ) : (
+                <input type="text" className={inputClass} value={draft[key]} onChange={(e) => setDraft({ ...draft, [key]: e.target.value })} />
+            )}
+            {hint && <p className="text-[11px] text-gray-400 mt-0.5">{hint}</p>}
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+                <div className="flex justify-between items-center p-4 border-b border-gray-100 bg-gray-50">
+                    <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+                        <Filter size={20} className="text-blue-600"/> Regras de Desconsideração
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-700 hover:bg-gray-100 p-1 rounded-full transition-colors"
+                    >
+                        <X size={24} />
+                    </button>
+                </div>
+
+                <div className="flex flex-1 min-h-0">
+                    <div className="w-72 border-r border-gray-100 overflow-auto p-2 space-y-1">
+                        {rules.map(rule => (
+                            <div
+                                key={rule.id}
+                                onClick={() => select(rule)}
+                                className={`flex items-center gap-2 px-2 py-2 rounded cursor-pointer text-sm ${rule.id === selectedId ? 'bg-blue-50 text-blue-800' : 'hover:bg-gray-50 text-gray-700'}`}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={rule.enabled}
+                                    title="Ativa"
+                                    onClick={(e) => e.stopPropagation()}
+                                    onChange={() => onChange(rules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))}
+                                />
+                                <span className={`flex-1 truncate ${rule.enabled ? '' : 'text-gray-400 line-through'}`}>{rule.name}</span>
+                                <span className="text-xs text-gray-400" title="Notas desconsideradas no confronto atual">{matchCounts[rule.name] ?? 0}</span>
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        removeRule(rule);
+                                    }}
+                                    className="p-1 rounded hover:bg-red-100 text-red-500"
+                                    title="Excluir"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        ))}
+                        <button onClick={addRule} className="w-full flex items-center gap-2 px-2 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded">
+                            <Plus size={16} /> Nova regra
+                        </button>
+                    </div>
+
+                    <div className="flex-1 overflow-auto p-4 space-y-3">
+                        {selected && draft ? (
+                            <>
+                                {field('name', 'Nome da regra')}
+                                <div className="grid grid-cols-2 gap-3">
+                                    {field('cnpjs', 'CNPJ do emitente', 'Lido da chave de acesso. Um por linha.', true)}
+                                    {field('series', 'Séries', 'Uma por linha.', true)}
+                                </div>
+                                {field('situacao', 'Situação SEFAZ contém', 'Ex.: Denegada')}
+                                <div className="grid grid-cols-2 gap-3">
+                                    {field('valueMin', 'Valor mínimo')}
+                                    {field('valueMax', 'Valor máximo')}
+                                </div>
+                                {field('chaves', 'Chaves de acesso', 'Uma por linha.', true)}
+                                <p className="text-xs text-gray-500">
+                                    A nota é desconsiderada quando atende a <strong>todos</strong> os critérios preenchidos.
+                                    Vale apenas para notas não lançadas, não encontradas na SEFAZ ou com valor divergente.
+                                </p>
+                                <div className="flex justify-end">
+                                    <Button variant="secondary" onClick={saveDraft}>Salvar Regra</Button>
+                                </div>
+                            </>
+                        ) : (
+                            <div className="text-sm text-gray-500 text-center py-12">Selecione ou crie uma regra.</div>
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-4 bg-gray-50 border-t border-gray-200 flex justify-between items-center gap-3">
+                    <span className="text-xs text-gray-500">As regras ficam salvas neste navegador e valem para todas as sessões.</span>
+                    <div className="flex gap-3">
+                        <label className="px-4 py-2 rounded-lg font-medium text-sm shadow-sm bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 flex items-center gap-2 cursor-pointer">
+                            <Upload size={16} /> Importar JSON
+                            <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+                        </label>
+                        <Button variant="outline" onClick={onExport} disabled={rules.length === 0}>
+                            <Download size={16} /> Exportar JSON
+                        </Button>
+                        <Button variant="outline" onClick={onClose}>Fechar</Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
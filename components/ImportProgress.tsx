@@ -0,0 +1,37 @@
+import React from 'react';
+import { Loader2, X } from 'lucide-react';
+import { FileProgress } from '../types';
+
+// One bar per file being read in the import worker
+export const ImportProgress: React.FC<{ progress: FileProgress[]; onCancel: () => void }> = ({ progress, onCancel }) => {
+    if (progress.length === 0) return null;
+
+    return (
+        <div className="mt-3 p-3 rounded-lg border border-blue-100 bg-blue-50/50 text-xs space-y-2">
+            <div className="flex items-center justify-between text-blue-800 font-medium">
+                <span className="flex items-center gap-1.5">
+                    <Loader2 size={14} className="animate-spin" /> Processando {progress.length > 1 ? `${progress.length} arquivos` : 'arquivo'}...
+                </span>
+                <button
+                    onClick={onCancel}
+                    className="flex items-center gap-1 text-gray-500 hover:text-red-600 transition-colors"
+                >
+                    <X size={14} /> Cancelar
+                </button>
+            </div>
+            <div className="max-h-40 overflow-y-auto space-y-1.5">
+                {progress.map((p, idx) => (
+                    <div key={`${p.fileName}-${idx}`}>
+                        <div className="flex justify-between gap-2 text-gray-600">
+                            <span className="truncate" title={p.fileName}>{p.fileName}</span>
+                            <span className="shrink-0">{Math.round(p.fraction * 100)}%</span>
+                        </div>
+                        <div className="h-1.5 bg-blue-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-blue-600 rounded-full transition-all" style={{ width: `${Math.round(p.fraction * 100)}%` }} />
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ClipboardList, ChevronDown, ChevronUp } from 'lucide-react';
+import { ImportReport } from '../types';
+
+const FIELD_LABELS: Record<string, string> = {
+    chave: 'Chave',
+    numero: 'Número',
+    serie: 'Série',
+    situacao: 'Situação',
+    emitente: 'Emitente',
+    data: 'Data',
+    valor: 'Valor',
+    cnpjDestinatario: 'CNPJ Destinatário'
+};
+
+// Rows listed per section before truncating; the counts in the header stay exact
+const MAX_LISTED = 200;
+
+const formatRow = (fileName: string, row?: number) => row !== undefined ? `${fileName}, linha ${row}` : fileName;
+
+export const ImportReportPanel: React.FC<{ report: ImportReport | null }> = ({ report }) => {
+    const [expanded, setExpanded] = useState(false);
+
+    if (!report || report.files.length === 0) return null;
+
+    const rowsRead = report.files.reduce((sum, f) => sum + f.rowsRead, 0);
+    const imported = report.files.reduce((sum, f) => sum + f.recordsImported, 0);
+    const hasIssues = report.skipped.length > 0 || report.duplicates.length > 0;
+
+    return (
+        <div className={`mt-3 rounded-lg border text-xs ${hasIssues ? 'border-amber-200' : 'border-gray-200'}`}>
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className={`w-full px-3 py-2 flex items-center justify-between gap-2 text-left rounded-lg ${hasIssues ? 'bg-amber-50 text-amber-800' : 'bg-gray-50 text-gray-600'}`}
+            >
+                <span className="flex items-center gap-1.5">
+                    <ClipboardList size={14} />
+                    <strong>{imported}</strong> de {rowsRead} linhas importadas
+                    {report.skipped.length > 0 && <> · {report.skipped.length} ignoradas</>}
+                    {report.duplicates.length > 0 && <> · {report.duplicates.length} duplicadas</>}
+                </span>
+                {expanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+            </button>
+
+            {expanded && (
+                <div className="p-3 space-y-3 max-h-72 overflow-y-auto text-gray-600">
+                    {report.files.map(file => (
+                        <div key={file.fileName}>
+                            <div className="font-semibold text-gray-700 truncate" title={file.fileName}>{file.fileName}</div>
+                            <div className="text-gray-500">{file.format} · {file.rowsRead} lidas · {file.recordsImported} importadas</div>
+                            {Object.keys(file.columns).length > 0 && (
+                                <div className="mt-0.5 text-gray-500">
+                                    {Object.entries(file.columns).map(([field, header]) => (
+                                        <span key={field} className="inline-block mr-2">
+                                            {FIELD_LABELS[field] || field} ← <em>{header}</em>
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+
+                    {report.skipped.length > 0 && (
+                        <div>
+                            <div className="font-semibold text-gray-700 mb-1">Linhas ignoradas</div>
+                            <ul className="space-y-0.5">
+                                {report.skipped.slice(0, MAX_LISTED).map((s, idx) => (
+                                    <li key={idx}><span className="text-gray-400">{formatRow(s.fileName, s.row)}:</span> {s.reason}</li>
+                                ))}
+                            </ul>
+                            {report.skipped.length > MAX_LISTED && <div className="text-gray-400 mt-1">… e mais {report.skipped.length - MAX_LISTED}</div>}
+                        </div>
+                    )}
+
+                    {report.duplicates.length > 0 && (
+                        <div>
+                            <div className="font-semibold text-gray-700 mb-1">Chaves duplicadas (vale a primeira ocorrência)</div>
+                            <ul className="space-y-1">
+                                {report.duplicates.slice(0, MAX_LISTED).map(d => (
+                                    <li key={d.chave}>
+                                        <span className="font-mono text-gray-500">{d.chave}</span>
+                                        <div className="text-gray-400 pl-2">{d.occurrences.map(o => formatRow(o.fileName, o.row)).join('; ')}</div>
+                                    </li>
+                                ))}
+                            </ul>
+                            {report.duplicates.length > MAX_LISTED && <div className="text-gray-400 mt-1">… e mais {report.duplicates.length - MAX_LISTED}</div>}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
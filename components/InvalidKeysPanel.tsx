@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { KeyRound, ChevronDown, ChevronUp } from 'lucide-react';
+import { AccountingRecord, SefazRecord } from '../types';
+
+interface InvalidKeysPanelProps {
+    accountingData: AccountingRecord[];
+    sefazData: SefazRecord[];
+}
+
+const formatSourceRow = (row: any): string => {
+    if (Array.isArray(row)) return Array.from(row, c => (c ?? '').toString()).filter(Boolean).join(' | ');
+    return row ? JSON.stringify(row) : '';
+};
+
+// Keys that failed validation are kept out of the key comparison and listed here for correction
+export const InvalidKeysPanel: React.FC<InvalidKeysPanelProps> = ({ accountingData, sefazData }) => {
+    const [expanded, setExpanded] = useState(true);
+
+    const rows = [
+        ...accountingData.filter(r => r.keyError).map(r => ({ origem: 'Contábil', chave: r.chave, motivo: r.keyError!, sourceRow: r.sourceRow })),
+        ...sefazData.filter(r => r.keyError).map(r => ({ origem: 'SEFAZ', chave: r.chave, motivo: r.keyError!, sourceRow: r.sourceRow }))
+    ];
+
+    if (rows.length === 0) return null;
+
+    return (
+        <div className="bg-white rounded-xl border border-amber-200 shadow-sm overflow-hidden">
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full p-4 bg-amber-50 flex items-center justify-between text-left"
+            >
+                <span className="font-semibold text-amber-800 flex items-center gap-2">
+                    <KeyRound size={18} /> Chaves inválidas ({rows.length})
+                    <span className="font-normal text-xs text-amber-700">— confrontadas apenas por número</span>
+                </span>
+                {expanded ? <ChevronUp size={18} className="text-amber-700" /> : <ChevronDown size={18} className="text-amber-700" />}
+            </button>
+            {expanded && (
+                <div className="overflow-x-auto max-h-80">
+                    <table className="w-full text-sm text-left">
+                        <thead className="bg-gray-50 text-gray-600 font-medium border-b border-gray-200">
+                            <tr>
+                                <th className="px-4 py-2">Origem</th>
+                                <th className="px-4 py-2">Chave</th>
+                                <th className="px-4 py-2">Motivo</th>
+                                <th className="px-4 py-2">Linha de origem</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {rows.map((row, idx) => (
+                                <tr key={idx}>
+                                    <td className="px-4 py-2 text-gray-600">{row.origem}</td>
+                                    <td className="px-4 py-2 font-mono text-xs text-gray-500">{row.chave || '(vazia)'}</td>
+                                    <td className="px-4 py-2 text-amber-700 font-medium">{row.motivo}</td>
+                                    <td className="px-4 py-2 text-xs text-gray-500 truncate max-w-md" title={formatSourceRow(row.sourceRow)}>
+                                        {formatSourceRow(row.sourceRow)}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
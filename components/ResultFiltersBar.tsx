@@ -0,0 +1,133 @@
+import React, { useMemo } from 'react';
+import { Filter } from 'lucide-react';
+import { AnnotationFilter, ComparisonResult, MatchStatus, ResultFilters } from '../types';
+import { EMPTY_FILTERS, ANNOTATION_FILTER_LABELS } from '../services/reconciler';
+import { JUSTIFICATION_CATEGORIES } from '../services/annotations';
+
+const inputClass = "px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const parseBound = (value: string): number | undefined => {
+    const number = parseFloat(value.replace(',', '.'));
+    return Number.isFinite(number) ? number : undefined;
+};
+
+interface ResultFiltersBarProps {
+    results: ComparisonResult[];
+    filters: ResultFilters;
+    onChange: (filters: ResultFilters) => void;
+}
+
+export const ResultFiltersBar: React.FC<ResultFiltersBarProps> = ({ results, filters, onChange }) => {
+    // Suggestions for the series and issuer inputs
+    const series = useMemo(() => Array.from(new Set(results.map(r => r.serie).filter(Boolean))).sort(), [results]);
+    const emitentes = useMemo(() => Array.from(new Set(results.map(r => r.emitente).filter(Boolean))).sort(), [results]);
+
+    const set = (patch: Partial<ResultFilters>) => onChange({ ...filters, ...patch });
+    const toggleStatus = (status: MatchStatus) => set({
+        statuses: filters.statuses.includes(status) ? filters.statuses.filter(s => s !== status) : [...filters.statuses, status]
+    });
+
+    return (
+        <div className="flex flex-wrap items-end gap-3 w-full">
+            <input
+                type="text"
+                placeholder="Buscar nota, chave, emitente..."
+                className={`${inputClass} w-full md:w-64`}
+                value={filters.text}
+                onChange={(e) => set({ text: e.target.value })}
+            />
+
+            <details className="relative">
+                <summary className={`${inputClass} cursor-pointer list-none bg-white flex items-center gap-2`}>
+                    <Filter size={14} className="text-gray-400" />
+                    {filters.statuses.length === 0 ? 'Todos os Status' : `${filters.statuses.length} status`}
+                </summary>
+                <div className="absolute z-20 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg p-2 w-64 space-y-1">
+                    {Object.values(MatchStatus).map(status => (
+                        <label key={status} className="flex items-center gap-2 text-sm text-gray-700 px-2 py-1 rounded hover:bg-gray-50 cursor-pointer">
+                            <input type="checkbox" checked={filters.statuses.includes(status)} onChange={() => toggleStatus(status)} />
+                            {status}
+                        </label>
+                    ))}
+                </div>
+            </details>
+
+            <div className="flex items-center gap-1">
+                <input type="date" className={inputClass} title="Data inicial" value={filters.dateFrom} onChange={(e) => set({ dateFrom: e.target.value })} />
+                <span className="text-gray-400 text-sm">a</span>
+                <input type="date" className={inputClass} title="Data final" value={filters.dateTo} onChange={(e) => set({ dateTo: e.target.value })} />
+            </div>
+
+            <div className="flex items-center gap-1">
+                <input
+                    type="number"
+                    placeholder="Valor mín."
+                    className={`${inputClass} w-28`}
+                    value={filters.valueMin ?? ''}
+                    onChange={(e) => set({ valueMin: parseBound(e.target.value) })}
+                />
+                <span className="text-gray-400 text-sm">a</span>
+                <input
+                    type="number"
+                    placeholder="Valor máx."
+                    className={`${inputClass} w-28`}
+                    value={filters.valueMax ?? ''}
+                    onChange={(e) => set({ valueMax: parseBound(e.target.value) })}
+                />
+            </div>
+
+            <input
+                type="text"
+                placeholder="Série"
+                list="result-filter-series"
+                className={`${inputClass} w-20`}
+                value={filters.serie}
+                onChange={(e) => set({ serie: e.target.value })}
+            />
+            <datalist id="result-filter-series">
+                {series.map(s => <option key={s} value={s} />)}
+            </datalist>
+
+            <input
+                type="text"
+                placeholder="Emitente"
+                list="result-filter-emitentes"
+                className={`${inputClass} w-48`}
+                value={filters.emitente}
+                onChange={(e) => set({ emitente: e.target.value })}
+            />
+            <datalist id="result-filter-emitentes">
+                {emitentes.map(e => <option key={e} value={e} />)}
+            </datalist>
+
+            <select
+                className={inputClass}
+                title="Anotação"
+                value={filters.annotation}
+                onChange={(e) => set({ annotation: e.target.value as AnnotationFilter })}
+            >
+                {(Object.keys(ANNOTATION_FILTER_LABELS) as AnnotationFilter[]).map(a => (
+                    <option key={a} value={a}>{a === 'all' ? 'Todas as anotações' : ANNOTATION_FILTER_LABELS[a]}</option>
+                ))}
+            </select>
+
+            <select
+                className={`${inputClass} w-48`}
+                title="Justificativa"
+                value={filters.category}
+                onChange={(e) => set({ category: e.target.value })}
+            >
+                <option value="">Todas as justificativas</option>
+                {JUSTIFICATION_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+
+            {/* The company scope is chosen in the dashboard and outlives the table filters */}
+            <button
+                onClick={() => onChange({ ...EMPTY_FILTERS, empresa: filters.empresa })}
+                className="text-xs font-medium text-blue-600 hover:text-blue-800 px-1 py-2"
+            >
+                Limpar filtros
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,212 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowUpDown, ArrowUp, ArrowDown, Check, X, MessageSquare } from 'lucide-react';
+import { ComparisonResult, MatchStatus, MatchReview, SefazSituation, SortConfig } from '../types';
+import { formatCurrency, formatDate } from '../utils';
+import { RESOLUTION_LABELS } from '../services/annotations';
+import { classifySituacao } from '../services/sefazSituation';
+import { StatusBadge } from './ui';
+
+export type ResultColumnKey = 'numero' | 'serie' | 'data' | 'chave' | 'emitente' | 'valor' | 'valorSefaz' | 'valorContabil' | 'diferenca' | 'situacaoSefaz' | 'status' | 'annotation';
+
+export const RESULT_COLUMNS: { key: ResultColumnKey; label: string; width: number }[] = [
+    { key: 'numero', label: 'Número', width: 100 },
+    { key: 'serie', label: 'Série', width: 70 },
+    { key: 'data', label: 'Data', width: 110 },
+    { key: 'chave', label: 'Chave de Acesso', width: 190 },
+    { key: 'emitente', label: 'Emitente', width: 220 },
+    { key: 'valor', label: 'Valor', width: 130 },
+    { key: 'valorSefaz', label: 'Valor SEFAZ', width: 130 },
+    { key: 'valorContabil', label: 'Valor Contábil', width: 130 },
+    { key: 'diferenca', label: 'Diferença', width: 120 },
+    { key: 'situacaoSefaz', label: 'Situação SEFAZ', width: 140 },
+    { key: 'status', label: 'Status', width: 220 },
+    { key: 'annotation', label: 'Anotação', width: 220 }
+];
+
+const SITUATION_STYLES: Record<SefazSituation, string> = {
+    [SefazSituation.AUTHORISED]: 'text-blue-600',
+    [SefazSituation.CANCELLED]: 'text-orange-600',
+    [SefazSituation.PENDING_CANCELLATION]: 'text-amber-600',
+    [SefazSituation.DENIED]: 'text-red-700',
+    [SefazSituation.VOIDED_RANGE]: 'text-slate-600',
+    [SefazSituation.CONTINGENCY]: 'text-indigo-600',
+    // Wording the mapping doesn't know yet: listed in the import warnings
+    [SefazSituation.UNKNOWN]: 'text-gray-500 italic'
+};
+
+const RESOLUTION_STYLES = {
+    open: 'text-gray-600',
+    resolved: 'text-emerald-700',
+    ignored: 'text-slate-400'
+};
+
+// Rows have a fixed height so the visible window can be computed from the scroll offset
+const ROW_HEIGHT = 56;
+const VIEWPORT_HEIGHT = 560;
+const OVERSCAN = 8;
+
+const optionalCurrency = (value?: number) => value !== undefined ? formatCurrency(value) : '-';
+
+interface ResultsTableProps {
+    results: ComparisonResult[];
+    visibleColumns: ResultColumnKey[];
+    sorts: SortConfig[];
+    // additive: keep the current sort columns and add/toggle this one (shift+click)
+    onSort: (key: ResultColumnKey, additive: boolean) => void;
+    onMatchReview: (id: string, review: MatchReview) => void;
+    onAnnotate: (result: ComparisonResult) => void;
+}
+
+export const ResultsTable: React.FC<ResultsTableProps> = ({ results, visibleColumns, sorts, onSort, onMatchReview, onAnnotate }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+
+    // A new filter or sort starts from the top
+    useEffect(() => {
+        if (containerRef.current) containerRef.current.scrollTop = 0;
+        setScrollTop(0);
+    }, [results]);
+
+    const columns = RESULT_COLUMNS.filter(c => visibleColumns.includes(c.key));
+    const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+    const last = Math.min(results.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+    const visibleRows = results.slice(first, last);
+
+    const renderCell = (key: ResultColumnKey, item: ComparisonResult) => {
+        switch (key) {
+            case 'numero':
+                return <span className="font-medium text-gray-900">{item.numero}</span>;
+            case 'chave':
+                return (
+                    <span className="font-mono text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded truncate max-w-full inline-block align-middle" title={item.chave}>
+                        {item.chave || '-'}
+                    </span>
+                );
+            case 'emitente':
+                return <span className="block truncate" title={item.emitente}>{item.emitente || '-'}</span>;
+            case 'valor':
+                return formatCurrency(item.valor);
+            case 'valorSefaz':
+                return optionalCurrency(item.valorSefaz);
+            case 'valorContabil':
+                return optionalCurrency(item.valorContabil);
+            case 'diferenca':
+                return <span className={item.diferenca ? 'text-purple-700 font-semibold' : 'text-gray-400'}>{optionalCurrency(item.diferenca)}</span>;
+            case 'situacaoSefaz':
+                return (
+                    <span className={`text-xs font-semibold ${item.situacaoSefaz ? SITUATION_STYLES[classifySituacao(item.situacaoSefaz)] : 'text-gray-400'}`}>
+                        {item.situacaoSefaz || '-'}
+                    </span>
+                );
+            case 'status':
+                return (
+                    <>
+                        <StatusBadge status={item.status} />
+                        {item.matchConfidence !== undefined && (
+                            <div className="mt-1 flex items-center gap-1 text-xs text-teal-700 whitespace-nowrap" title={`Linha contábil: ${item.accountingRecord?.sourceLine ?? '-'}`}>
+                                {item.matchReview === 'accepted' ? 'Por número, aceita' : `Confiança ${item.matchConfidence}%`}
+                                {item.status === MatchStatus.MATCHED_BY_NUMBER && (
+                                    <>
+                                        <button onClick={() => onMatchReview(item.id, 'accepted')} className="p-0.5 rounded hover:bg-emerald-100 text-emerald-700" title="Aceitar sugestão">
+                                            <Check size={14} />
+                                        </button>
+                                        <button onClick={() => onMatchReview(item.id, 'rejected')} className="p-0.5 rounded hover:bg-red-100 text-red-600" title="Rejeitar sugestão">
+                                            <X size={14} />
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                    </>
+                );
+            case 'annotation':
+                return (
+                    <button
+                        onClick={() => onAnnotate(item)}
+                        className="flex items-center gap-2 w-full text-left rounded px-1 py-0.5 hover:bg-blue-50"
+                        title={item.annotation?.comment || 'Adicionar justificativa'}
+                    >
+                        <MessageSquare size={14} className={item.annotation ? 'text-blue-600 shrink-0' : 'text-gray-300 shrink-0'} />
+                        {item.annotation ? (
+                            <span className="min-w-0">
+                                <span className="block truncate text-xs text-gray-800">{item.annotation.category || item.annotation.comment}</span>
+                                <span className={`block text-[11px] font-semibold ${RESOLUTION_STYLES[item.annotation.resolution]}`}>
+                                    {RESOLUTION_LABELS[item.annotation.resolution]}
+                                </span>
+                            </span>
+                        ) : (
+                            <span className="text-xs text-gray-400">Anotar</span>
+                        )}
+                    </button>
+                );
+            case 'data':
+                return formatDate(item.data) || '-';
+            default:
+                return item[key] || '-';
+        }
+    };
+
+    const sortIcon = (key: ResultColumnKey) => {
+        const index = sorts.findIndex(s => s.key === key);
+        if (index === -1) return <ArrowUpDown size={14} className="text-gray-400 opacity-50 ml-1" />;
+        const Arrow = sorts[index].direction === 'asc' ? ArrowUp : ArrowDown;
+        return (
+            <span className="flex items-center text-blue-600 ml-1">
+                <Arrow size={14} />
+                {sorts.length > 1 && <span className="text-[10px] font-bold">{index + 1}</span>}
+            </span>
+        );
+    };
+
+    return (
+        <div
+            ref={containerRef}
+            className="overflow-auto"
+            style={{ maxHeight: VIEWPORT_HEIGHT }}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+            <table className="text-sm text-left table-fixed" style={{ width: columns.reduce((sum, c) => sum + c.width, 0), minWidth: '100%' }}>
+                <colgroup>
+                    {columns.map(c => <col key={c.key} style={{ width: c.width }} />)}
+                </colgroup>
+                <thead className="bg-gray-50 text-gray-600 font-medium border-b border-gray-200 sticky top-0 z-10">
+                    <tr>
+                        {columns.map(c => (
+                            <th
+                                key={c.key}
+                                className="px-4 py-3 cursor-pointer hover:bg-gray-100 transition-colors select-none"
+                                onClick={(e) => onSort(c.key, e.shiftKey)}
+                                title="Clique para ordenar; Shift+clique para ordenar por várias colunas"
+                            >
+                                <div className="flex items-center gap-1 whitespace-nowrap">
+                                    {c.label}
+                                    {sortIcon(c.key)}
+                                </div>
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                    {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} />}
+                    {visibleRows.map((item) => (
+                        <tr key={item.id} className="hover:bg-slate-50 transition-colors" style={{ height: ROW_HEIGHT }}>
+                            {columns.map(c => (
+                                <td key={c.key} className="px-4 py-1 text-gray-600 whitespace-nowrap overflow-hidden">
+                                    {renderCell(c.key, item)}
+                                </td>
+                            ))}
+                        </tr>
+                    ))}
+                    {last < results.length && <tr style={{ height: (results.length - last) * ROW_HEIGHT }} />}
+                    {results.length === 0 && (
+                        <tr>
+                            <td colSpan={columns.length} className="px-6 py-8 text-center text-gray-500">
+                                Nenhum registro encontrado com os filtros atuais.
+                            </td>
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+        </div>
+    );
+};
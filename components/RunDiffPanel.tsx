@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { GitCompare, Download, FileSpreadsheet } from 'lucide-react';
+import { RunChange, RunDiffEntry, SessionSummary } from '../types';
+import { countRunChanges } from '../services/runDiff';
+import { formatCurrency, formatDate } from '../utils';
+import { Button } from './ui';
+
+const CHANGE_STYLES: Record<RunChange, string> = {
+    [RunChange.NEWLY_PENDING]: 'bg-red-50 text-red-700 border-red-200',
+    [RunChange.STILL_PENDING]: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+    [RunChange.RESOLVED]: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+    [RunChange.NEWLY_CANCELLED]: 'bg-orange-50 text-orange-700 border-orange-200',
+    [RunChange.NOT_IN_CURRENT]: 'bg-slate-50 text-slate-600 border-slate-200'
+};
+
+interface RunDiffPanelProps {
+    // Saved sessions that can serve as the previous run
+    sessions: SessionSummary[];
+    previousRunId: string | null;
+    onSelectPreviousRun: (id: string | null) => void;
+    entries: RunDiffEntry[];
+    onExportExcel: () => void;
+    onExportPdf: () => void;
+}
+
+export const RunDiffPanel: React.FC<RunDiffPanelProps> = ({ sessions, previousRunId, onSelectPreviousRun, entries, onExportExcel, onExportPdf }) => {
+    const [change, setChange] = useState<RunChange | null>(null);
+
+    const counts = useMemo(() => countRunChanges(entries), [entries]);
+    const shown = change ? entries.filter(e => e.change === change) : entries;
+
+    return (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+            <div className="p-5 border-b border-gray-100 flex flex-wrap justify-between items-end gap-4">
+                <div>
+                    <h2 className="font-semibold text-lg text-gray-800 flex items-center gap-2">
+                        <GitCompare size={20} className="text-slate-500" /> Comparação com Execução Anterior
+                    </h2>
+                    <p className="text-xs text-gray-500 mt-1">O que foi regularizado e o que continua pendente desde o último confronto.</p>
+                </div>
+                <div>
+                    <label className="block text-xs font-semibold text-gray-600 mb-1">Execução anterior</label>
+                    <select
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 w-72"
+                        value={previousRunId ?? ''}
+                        onChange={(e) => {
+                            setChange(null);
+                            onSelectPreviousRun(e.target.value || null);
+                        }}
+                    >
+                        <option value="">— Selecione uma sessão salva —</option>
+                        {sessions.map(s => (
+                            <option key={s.id} value={s.id}>{s.name} ({s.resultCount} resultados)</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {previousRunId && (
+                <>
+                    <div className="p-5 grid grid-cols-2 sm:grid-cols-5 gap-3">
+                        {Object.values(RunChange).map(c => (
+                            <button
+                                key={c}
+                                onClick={() => setChange(change === c ? null : c)}
+                                className={`p-3 rounded-lg border text-center transition-shadow ${CHANGE_STYLES[c]} ${change === c ? 'ring-2 ring-blue-500' : 'hover:shadow-sm'}`}
+                            >
+                                <div className="text-sm font-medium">{c}</div>
+                                <div className="text-2xl font-bold">{counts[c]}</div>
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="overflow-auto max-h-96 border-t border-gray-100">
+                        <table className="w-full text-sm text-left">
+                            <thead className="bg-gray-50 text-gray-600 font-medium border-b border-gray-200 sticky top-0">
+                                <tr>
+                                    <th className="px-4 py-2">Número</th>
+                                    <th className="px-4 py-2">Data</th>
+                                    <th className="px-4 py-2">Chave de Acesso</th>
+                                    <th className="px-4 py-2">Emitente</th>
+                                    <th className="px-4 py-2 text-right">Valor</th>
+                                    <th className="px-4 py-2">Status anterior</th>
+                                    <th className="px-4 py-2">Status atual</th>
+                                    <th className="px-4 py-2">Mudança</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {shown.map(e => (
+                                    <tr key={e.id} className="hover:bg-slate-50">
+                                        <td className="px-4 py-2 font-medium text-gray-900">{e.numero}</td>
+                                        <td className="px-4 py-2 text-gray-600">{formatDate(e.data) || '-'}</td>
+                                        <td className="px-4 py-2 font-mono text-xs text-gray-500">{e.chave || '-'}</td>
+                                        <td className="px-4 py-2 text-gray-600 truncate max-w-[14rem]" title={e.emitente}>{e.emitente || '-'}</td>
+                                        <td className="px-4 py-2 text-right text-gray-600">{formatCurrency(e.valor)}</td>
+                                        <td className="px-4 py-2 text-gray-500">{e.previousStatus || '-'}</td>
+                                        <td className="px-4 py-2 text-gray-500">{e.currentStatus || '-'}</td>
+                                        <td className="px-4 py-2">
+                                            <span className={`px-2 py-0.5 rounded-full border text-xs font-semibold whitespace-nowrap ${CHANGE_STYLES[e.change]}`}>{e.change}</span>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {shown.length === 0 && (
+                                    <tr>
+                                        <td colSpan={8} className="px-6 py-8 text-center text-gray-500">
+                                            Nenhuma mudança entre as execuções.
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="p-4 bg-white border-t border-gray-200 flex flex-wrap gap-3 justify-end">
+                        <Button variant="outline" onClick={onExportExcel}>
+                            <FileSpreadsheet size={16} /> Excel
+                        </Button>
+                        <Button variant="primary" onClick={onExportPdf}>
+                            <Download size={16} /> PDF para o Cliente
+                        </Button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
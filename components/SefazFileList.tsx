@@ -0,0 +1,41 @@
+import React from 'react';
+import { FileText, X } from 'lucide-react';
+import { SefazFileImport } from '../types';
+
+interface SefazFileListProps {
+    files: SefazFileImport[];
+    onRemove: (fileName: string) => void;
+    onClear: () => void;
+}
+
+export const SefazFileList: React.FC<SefazFileListProps> = ({ files, onRemove, onClear }) => {
+    if (files.length === 0) return null;
+
+    return (
+        <div className="mt-3 rounded-lg border border-gray-200 text-xs">
+            <div className="px-3 py-2 bg-gray-50 rounded-t-lg flex items-center justify-between text-gray-600">
+                <span><strong>{files.length}</strong> {files.length === 1 ? 'arquivo' : 'arquivos'}</span>
+                <button onClick={onClear} className="font-medium text-red-600 hover:text-red-800">Remover todos</button>
+            </div>
+            <ul className="divide-y divide-gray-100 max-h-48 overflow-auto">
+                {files.map(file => (
+                    <li key={file.fileName} className="px-3 py-1.5 flex items-center gap-2">
+                        <FileText size={14} className="text-gray-400 shrink-0" />
+                        <span className="flex-1 truncate text-gray-700" title={`${file.fileName} (${file.format})`}>{file.fileName}</span>
+                        <span className="text-gray-500 whitespace-nowrap" title={`${file.rowsRead} linhas lidas`}>
+                            {file.records.length} regs
+                            {file.cancellations.length > 0 && <> · {file.cancellations.length} canc.</>}
+                        </span>
+                        <button
+                            onClick={() => onRemove(file.fileName)}
+                            className="p-0.5 rounded hover:bg-red-100 text-red-500"
+                            title="Remover arquivo"
+                        >
+                            <X size={14} />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { FolderOpen, Copy, Trash2, Pencil, Upload, X } from 'lucide-react';
+import { SessionSummary } from '../types';
+import { Button } from './ui';
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString('pt-BR');
+
+interface SessionsDialogProps {
+    sessions: SessionSummary[];
+    currentId?: string;
+    onOpen: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+    onImport: (file: File) => void;
+    onClose: () => void;
+}
+
+export const SessionsDialog: React.FC<SessionsDialogProps> = ({ sessions, currentId, onOpen, onRename, onDuplicate, onDelete, onImport, onClose }) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    const startRename = (session: SessionSummary) => {
+        setEditingId(session.id);
+        setDraftName(session.name);
+    };
+
+    const commitRename = () => {
+        if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+        setEditingId(null);
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onImport(file);
+        e.target.value = '';
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+                <div className="flex justify-between items-center p-4 border-b border-gray-100 bg-gray-50">
+                    <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+                        <FolderOpen size={20} className="text-blue-600"/> Sessões Salvas
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-700 hover:bg-gray-100 p-1 rounded-full transition-colors"
+                    >
+                        <X size={24} />
+                    </button>
+                </div>
+
+                <div className="overflow-auto flex-1">
+                    <table className="w-full text-sm text-left">
+                        <thead className="bg-gray-50 text-gray-600 font-medium border-b border-gray-200 sticky top-0">
+                            <tr>
+                                <th className="px-4 py-2">Nome</th>
+                                <th className="px-4 py-2">Arquivos</th>
+                                <th className="px-4 py-2 text-right">Resultados</th>
+                                <th className="px-4 py-2">Atualizada em</th>
+                                <th className="px-4 py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {sessions.map(session => (
+                                <tr key={session.id} className={session.id === currentId ? 'bg-blue-50/50' : 'hover:bg-slate-50'}>
+                                    <td className="px-4 py-2">
+                                        {editingId === session.id ? (
+                                            <input
+                                                autoFocus
+                                                className="px-2 py-1 border border-gray-300 rounded text-sm w-full focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                                value={draftName}
+                                                onChange={(e) => setDraftName(e.target.value)}
+                                                onBlur={commitRename}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter') commitRename();
+                                                    if (e.key === 'Escape') setEditingId(null);
+                                                }}
+                                            />
+                                        ) : (
+                                            <span className="font-medium text-gray-900">
+                                                {session.name}
+                                                {session.id === currentId && <span className="ml-2 text-xs text-blue-600">(aberta)</span>}
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-2 text-xs text-gray-500">
+                                        <div>{session.accountingFileName || '—'}</div>
+                                        <div>{session.sefazFileName || '—'}</div>
+                                    </td>
+                                    <td className="px-4 py-2 text-right">{session.resultCount}</td>
+                                    <td className="px-4 py-2 text-gray-500 whitespace-nowrap">{formatTimestamp(session.updatedAt)}</td>
+                                    <td className="px-4 py-2">
+                                        <div className="flex justify-end gap-1">
+                                            <button onClick={() => onOpen(session.id)} className="p-1.5 rounded hover:bg-blue-100 text-blue-700" title="Abrir">
+                                                <FolderOpen size={16} />
+                                            </button>
+                                            <button onClick={() => startRename(session)} className="p-1.5 rounded hover:bg-gray-100 text-gray-600" title="Renomear">
+                                                <Pencil size={16} />
+                                            </button>
+                                            <button onClick={() => onDuplicate(session.id)} className="p-1.5 rounded hover:bg-gray-100 text-gray-600" title="Duplicar">
+                                                <Copy size={16} />
+                                            </button>
+                                            <button
+                                                onClick={() => window.confirm(`Excluir a sessão "${session.name}"?`) && onDelete(session.id)}
+                                                className="p-1.5 rounded hover:bg-red-100 text-red-600"
+                                                title="Excluir"
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                            {sessions.length === 0 && (
+                                <tr>
+                                    <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                                        Nenhuma sessão salva. As sessões são gravadas automaticamente ao carregar arquivos.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="p-4 bg-gray-50 border-t border-gray-200 flex justify-between items-center gap-3">
+                    <span className="text-xs text-gray-500">As sessões ficam salvas apenas neste navegador. Exporte em JSON para enviar a um colega.</span>
+                    <div className="flex gap-3">
+                        <label className="px-4 py-2 rounded-lg font-medium text-sm shadow-sm bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 flex items-center gap-2 cursor-pointer">
+                            <Upload size={16} /> Importar JSON
+                            <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+                        </label>
+                        <Button variant="outline" onClick={onClose}>Fechar</Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
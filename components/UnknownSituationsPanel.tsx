@@ -0,0 +1,54 @@
+import React, { useMemo, useState } from 'react';
+import { HelpCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { SefazRecord } from '../types';
+import { unknownSituations } from '../services/sefazSituation';
+
+interface UnknownSituationsPanelProps {
+    sefazData: SefazRecord[];
+}
+
+// Situation wordings missing from SITUATION_MAPPING: reconciled as authorised until the table learns them.
+// Maintainers: add each reported wording to SITUATION_MAPPING in services/sefazSituation.ts
+export const UnknownSituationsPanel: React.FC<UnknownSituationsPanelProps> = ({ sefazData }) => {
+    const [expanded, setExpanded] = useState(true);
+    const situations = useMemo(() => unknownSituations(sefazData), [sefazData]);
+
+    if (situations.length === 0) return null;
+
+    return (
+        <div className="bg-white rounded-xl border border-amber-200 shadow-sm overflow-hidden">
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full p-4 bg-amber-50 flex items-center justify-between text-left"
+            >
+                <span className="font-semibold text-amber-800 flex items-center gap-2">
+                    <HelpCircle size={18} /> Situações SEFAZ não reconhecidas ({situations.length})
+                    <span className="font-normal text-xs text-amber-700">— notas tratadas como Autorizada; informe estas situações ao suporte</span>
+                </span>
+                {expanded ? <ChevronUp size={18} className="text-amber-700" /> : <ChevronDown size={18} className="text-amber-700" />}
+            </button>
+            {expanded && (
+                <div className="overflow-x-auto max-h-80">
+                    <table className="w-full text-sm text-left">
+                        <thead className="bg-gray-50 text-gray-600 font-medium border-b border-gray-200">
+                            <tr>
+                                <th className="px-4 py-2">Situação</th>
+                                <th className="px-4 py-2 text-right">Notas</th>
+                                <th className="px-4 py-2">Arquivos</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {situations.map(s => (
+                                <tr key={s.situacao}>
+                                    <td className="px-4 py-2 text-amber-700 font-medium">{s.situacao}</td>
+                                    <td className="px-4 py-2 text-right text-gray-700">{s.count}</td>
+                                    <td className="px-4 py-2 text-xs text-gray-500">{s.files.join(', ') || '-'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -97,6 +97,17 @@ export const StatusBadge: React.FC<{ status: string }> = ({ status }) => {
     else if (status === 'Cancelada') style = "bg-orange-50 text-orange-700 border border-orange-200";
     else if (status === 'Autorizada') style = "bg-blue-50 text-blue-700 border border-blue-200";
     else if (status === 'Não encontrada na SEFAZ') style = "bg-yellow-50 text-yellow-700 border border-yellow-200";
+    else if (status === 'Cancelada mas lançada') style = "bg-rose-600 text-white border border-rose-700";
+    else if (status === 'Valor divergente') style = "bg-purple-50 text-purple-700 border border-purple-200";
+    else if (status === 'Conciliada por número') style = "bg-teal-50 text-teal-700 border border-teal-200";
+    else if (status === 'Desconsiderada') style = "bg-slate-100 text-slate-500 border border-slate-200";
+    else if (status === 'Fora do período') style = "bg-sky-50 text-sky-700 border border-sky-200";
+    else if (status === 'Denegada') style = "bg-red-100 text-red-800 border border-red-300";
+    else if (status === 'Denegada mas lançada') style = "bg-red-700 text-white border border-red-800";
+    else if (status === 'Inutilizada') style = "bg-slate-100 text-slate-700 border border-slate-300";
+    else if (status === 'Inutilizada mas lançada') style = "bg-slate-700 text-white border border-slate-800";
+    else if (status === 'Cancelamento pendente') style = "bg-amber-50 text-amber-700 border border-amber-200";
+    else if (status === 'Em contingência') style = "bg-indigo-50 text-indigo-700 border border-indigo-200";
     
     return (
         <span className={`px-2.5 py-0.5 rounded-full text-xs font-semibold ${style}`}>
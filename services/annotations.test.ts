@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { applyAnnotations, annotationKey, countAnnotations, describeAnnotation } from './annotations';
+import { reconcile } from './reconciler';
+import { AccountingRecord, ComparisonResult, MatchStatus, NoteAnnotation, SefazRecord } from '../types';
+
+const row = (id: string, status: MatchStatus): ComparisonResult => ({
+  id,
+  chave: id,
+  numero: id,
+  serie: '1',
+  emitente: '',
+  data: '',
+  valor: 0,
+  situacaoSefaz: 'Autorizada',
+  status
+});
+
+const note = (overrides: Partial<NoteAnnotation> = {}): NoteAnnotation => ({
+  category: 'Devolvida',
+  comment: '',
+  resolution: 'open',
+  updatedAt: '2024-02-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('annotations', () => {
+  const results = applyAnnotations(
+    [row('A', MatchStatus.MISSING_IN_ACCOUNTING), row('B', MatchStatus.MISSING_IN_ACCOUNTING), row('C', MatchStatus.MISSING_IN_ACCOUNTING), row('D', MatchStatus.MATCHED)],
+    { B: note({ resolution: 'resolved' }), C: note({ resolution: 'ignored' }), D: note() }
+  );
+
+  it('attaches annotations by result id', () => {
+    expect(results[0].annotation).toBeUndefined();
+    expect(results[1].annotation?.resolution).toBe('resolved');
+  });
+
+  it('counts resolved, ignored and unsolved pending notes', () => {
+    expect(countAnnotations(results)).toEqual({ annotated: 3, resolved: 1, ignored: 1, openPending: 1 });
+  });
+
+  it('keeps the annotation of a fallback pair when the auditor reviews it', () => {
+    const KEY = '26240112345678000190550010000001011000001012';
+    const keyless: AccountingRecord = { id: 'linha-5', chave: '', keyError: 'Sem chave de acesso', numero: '101', dataEmissao: '2024-01-10', valor: 100, sourceRow: [] };
+    const sefaz: SefazRecord = { id: KEY, chave: KEY, numero: '101', serie: '1', situacao: 'Autorizada', emitente: '', data: '2024-01-10', valor: 100, sourceRow: [] };
+    const suggested = reconcile([keyless], [sefaz]).results[0];
+    const annotations = { [annotationKey(suggested)]: note() };
+
+    const rejected = reconcile([keyless], [sefaz], { matchReviews: { [suggested.id]: 'rejected' } }).results;
+    expect(rejected[0].id).not.toBe(suggested.id);
+    expect(applyAnnotations(rejected, annotations)[0].annotation).toEqual(note());
+  });
+
+  it('still finds annotations saved under the row id', () => {
+    const pair = { ...row('A', MatchStatus.MATCHED_BY_NUMBER), id: 'A~linha-5' };
+
+    expect(applyAnnotations([pair], { 'A~linha-5': note() })[0].annotation).toEqual(note());
+  });
+
+  it('describes an annotation in one line', () => {
+    expect(describeAnnotation(note({ comment: 'NF de devolução 123', resolution: 'resolved' }))).toBe('Devolvida — NF de devolução 123 (Resolvida)');
+    expect(describeAnnotation(undefined)).toBe('');
+  });
+});
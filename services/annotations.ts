@@ -0,0 +1,58 @@
+import { AnnotationResolution, ComparisonResult, MatchStatus, NoteAnnotation } from '../types';
+
+// Usual reasons a note stays out of the books; free text goes in the comment
+export const JUSTIFICATION_CATEGORIES = [
+  'Uso e consumo lançada em outra empresa',
+  'Devolvida',
+  'Lançada em outra competência',
+  'Remessa sem crédito',
+  'Desconhecida pela empresa',
+  'Outro'
+];
+
+export const RESOLUTION_LABELS: Record<AnnotationResolution, string> = {
+  open: 'Em aberto',
+  resolved: 'Resolvida',
+  ignored: 'Ignorada'
+};
+
+export interface AnnotationCounts {
+  annotated: number;
+  resolved: number;
+  ignored: number;
+  // "Não Lançada" notes nobody has resolved or ignored yet
+  openPending: number;
+}
+
+// Annotations follow the note, not the row: accepting or rejecting a fallback pair changes the result id
+// (SEFAZ key~accounting id) but keeps the key. Entries without a key fall back to the row id.
+export const annotationKey = (result: ComparisonResult): string => result.chave || result.id;
+
+// Annotations saved under the row id (older sessions) are still found
+export const annotationOf = (result: ComparisonResult, annotations: Record<string, NoteAnnotation>): NoteAnnotation | undefined =>
+  annotations[annotationKey(result)] ?? annotations[result.id];
+
+export const applyAnnotations = (results: ComparisonResult[], annotations: Record<string, NoteAnnotation>): ComparisonResult[] =>
+  results.map(r => {
+    const annotation = annotationOf(r, annotations);
+    return annotation ? { ...r, annotation } : r;
+  });
+
+// One line for reports: "Devolvida — NF de devolução 123 (Resolvida)"
+export const describeAnnotation = (annotation?: NoteAnnotation): string => {
+  if (!annotation) return '';
+  const text = [annotation.category, annotation.comment].filter(Boolean).join(' — ');
+  return `${text} (${RESOLUTION_LABELS[annotation.resolution]})`.trim();
+};
+
+export const countAnnotations = (results: ComparisonResult[]): AnnotationCounts => {
+  const counts: AnnotationCounts = { annotated: 0, resolved: 0, ignored: 0, openPending: 0 };
+  results.forEach(r => {
+    const resolution = r.annotation?.resolution;
+    if (r.annotation) counts.annotated++;
+    if (resolution === 'resolved') counts.resolved++;
+    else if (resolution === 'ignored') counts.ignored++;
+    else if (r.status === MatchStatus.MISSING_IN_ACCOUNTING) counts.openPending++;
+  });
+  return counts;
+};
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { reconcileFiles, summarizeRun, exitCodeFor, parseManifest, buildSummaryCsv, EXIT_OK, EXIT_PENDING, EXIT_ERROR } from './batch';
+import { buildPdfReport } from './pdfService';
+import { createIgnoreRule } from './ignoreRules';
+import { MatchStatus } from '../types';
+
+const KEY_A = '26240112345678000190550010000001011000001012';
+const KEY_B = '26240112345678000190550010000001021000001028';
+
+const accountingFile = () => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Nota', 'Chave', 'Fornecedor', 'Valor Contábil'], ['101', KEY_A, 'FORNECEDOR LTDA', 100]]), 'Notas');
+  return new File([XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })], 'contabil.xlsx');
+};
+
+const sefazFile = () => new File([[
+  'Chave de Acesso;Número NF-e;Série;Data Emissão;Razão Social Emitente;Valor Total;Situação',
+  `${KEY_A};101;1;2024-01-10;FORNECEDOR LTDA;100,00;Autorizada`,
+  `${KEY_B};102;1;2024-01-11;FORNECEDOR LTDA;50,10;Autorizada`
+].join('\n')], 'export.csv');
+
+// Runs in Node's own environment: no FileReader or DOMParser, as in the CLI
+describe('reconcileFiles', () => {
+  it('reconciles files without browser APIs and summarises the pending notes', async () => {
+    const run = await reconcileFiles(accountingFile(), [sefazFile()]);
+
+    expect(run.results.map(r => r.status)).toEqual([MatchStatus.MATCHED, MatchStatus.MISSING_IN_ACCOUNTING]);
+    expect(run.sefazReport.files[0]).toMatchObject({ fileName: 'export.csv', recordsImported: 2 });
+    expect(run.unknownSituations).toEqual([]);
+    expect(summarizeRun('Cliente', '', run)).toMatchObject({ outcome: 'pendente', pendingValue: 50.1 });
+    expect(buildPdfReport(run.results, { title: 'Relatório' }).output('arraybuffer').byteLength).toBeGreaterThan(0);
+  });
+
+  it('applies ignore rules before deciding what is pending', async () => {
+    const rule = { ...createIgnoreRule('Nota 102'), chaves: [KEY_B] };
+    const run = await reconcileFiles(accountingFile(), [sefazFile()], { ignoreRules: [rule] });
+
+    expect(run.stats.ignoredByRule).toBe(1);
+    expect(summarizeRun('Cliente', '', run).outcome).toBe('ok');
+  });
+
+  it('requires SEFAZ files', async () => {
+    await expect(reconcileFiles(accountingFile(), [])).rejects.toThrow('Nenhum arquivo SEFAZ');
+  });
+});
+
+describe('exitCodeFor', () => {
+  it('reports errors first, then pending notes', () => {
+    expect(exitCodeFor([{ client: 'A', cnpj: '', outcome: 'ok' }])).toBe(EXIT_OK);
+    expect(exitCodeFor([{ client: 'A', cnpj: '', outcome: 'ok' }, { client: 'B', cnpj: '', outcome: 'pendente' }])).toBe(EXIT_PENDING);
+    expect(exitCodeFor([{ client: 'A', cnpj: '', outcome: 'pendente' }, { client: 'B', cnpj: '', outcome: 'erro' }])).toBe(EXIT_ERROR);
+  });
+});
+
+describe('parseManifest', () => {
+  it('reads clients with one or many SEFAZ paths', () => {
+    const clients = parseManifest(JSON.stringify({
+      clientes: [
+        { nome: 'Padaria', cnpj: '12345678000190', contabil: 'padaria/contabil.xlsx', sefaz: 'padaria/sefaz' },
+        { nome: 'Oficina', contabil: 'oficina.xls', sefaz: ['oficina/jan.zip', 'oficina/fev.zip'] }
+      ]
+    }));
+
+    expect(clients).toEqual([
+      { name: 'Padaria', cnpj: '12345678000190', contabil: 'padaria/contabil.xlsx', sefaz: ['padaria/sefaz'] },
+      { name: 'Oficina', cnpj: '', contabil: 'oficina.xls', sefaz: ['oficina/jan.zip', 'oficina/fev.zip'] }
+    ]);
+  });
+
+  it('rejects incomplete or ambiguous manifests', () => {
+    expect(() => parseManifest('{')).toThrow('JSON válido');
+    expect(() => parseManifest('{"clientes": []}')).toThrow('nenhum cliente');
+    expect(() => parseManifest('{"clientes": [{"nome": "A", "sefaz": "x"}]}')).toThrow('A: campo "contabil"');
+    expect(() => parseManifest('[{"nome": "A", "contabil": "a.xlsx", "sefaz": "x"}, {"nome": "A", "contabil": "b.xlsx", "sefaz": "y"}]')).toThrow('nome repetido');
+  });
+});
+
+describe('buildSummaryCsv', () => {
+  it('writes one semicolon-separated line per client', () => {
+    const csv = buildSummaryCsv([
+      { client: 'Padaria; Filial', cnpj: '1', outcome: 'erro', error: 'Arquivo não encontrado' }
+    ]);
+    const [header, line] = csv.replace(/^﻿/, '').trim().split('\r\n');
+
+    expect(header.split(';').slice(0, 4)).toEqual(['Cliente', 'CNPJ', 'Resultado', 'Total analisado']);
+    expect(line.startsWith('"Padaria; Filial";1;erro;')).toBe(true);
+    expect(line.endsWith(';Arquivo não encontrado')).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+import { ComparisonResult, CompetencePeriod, IgnoreRule, ImportReport, MatchStatus, SummaryStats, ValueTolerance } from '../types';
+import { parseAccountingFile, parseSefazFiles } from './parser';
+import { reconcile, computeStats, STATS_ROWS } from './reconciler';
+import { applyIgnoreRules } from './ignoreRules';
+import { unknownSituations, UnknownSituation } from './sefazSituation';
+
+// Headless reconciliation used by the command-line tool (cli/confronta.ts). Nothing here touches the
+// file system, so the CLI decides where files come from and where reports go.
+
+// Exit codes of the CLI: errors win over pending notes
+export const EXIT_OK = 0;
+export const EXIT_PENDING = 1;
+export const EXIT_ERROR = 2;
+
+// One client's file set as listed in a manifest; paths are relative to the manifest
+export interface BatchClient {
+  name: string;
+  cnpj: string;
+  contabil: string;
+  sefaz: string[];
+}
+
+export interface BatchRunOptions {
+  valueTolerance?: ValueTolerance;
+  ignoreRules?: IgnoreRule[];
+  period?: CompetencePeriod;
+}
+
+export interface BatchRun {
+  results: ComparisonResult[];
+  stats: SummaryStats;
+  accountingReport: ImportReport;
+  sefazReport: ImportReport;
+  // SEFAZ situation wordings the mapping doesn't know, reconciled as authorised
+  unknownSituations: UnknownSituation[];
+}
+
+export type BatchOutcome = 'ok' | 'pendente' | 'erro';
+
+// One line of the consolidated summary
+export interface BatchSummaryRow {
+  client: string;
+  cnpj: string;
+  outcome: BatchOutcome;
+  stats?: SummaryStats;
+  pendingValue?: number;
+  error?: string;
+}
+
+// Same rule as the rest of the app: a pending note is one SEFAZ authorised and the books don't have
+export const pendingResults = (results: ComparisonResult[]) =>
+  results.filter(r => r.status === MatchStatus.MISSING_IN_ACCOUNTING);
+
+export const reconcileFiles = async (accounting: File, sefaz: File[], options: BatchRunOptions = {}): Promise<BatchRun> => {
+  if (sefaz.length === 0) throw new Error('Nenhum arquivo SEFAZ informado.');
+  const accountingImport = await parseAccountingFile(accounting);
+  const sefazImport = await parseSefazFiles(sefaz);
+  const { results } = reconcile(accountingImport.records, sefazImport.records, {
+    ...(options.valueTolerance && { valueTolerance: options.valueTolerance }),
+    ...(options.period && { period: options.period })
+  });
+  const ruled = applyIgnoreRules(results, options.ignoreRules ?? []);
+  return {
+    results: ruled,
+    stats: computeStats(ruled),
+    accountingReport: accountingImport.report,
+    sefazReport: sefazImport.report,
+    unknownSituations: unknownSituations(sefazImport.records)
+  };
+};
+
+export const summarizeRun = (client: string, cnpj: string, run: BatchRun): BatchSummaryRow => {
+  const pending = pendingResults(run.results);
+  return {
+    client,
+    cnpj,
+    outcome: pending.length > 0 ? 'pendente' : 'ok',
+    stats: run.stats,
+    pendingValue: pending.reduce((sum, r) => sum + (Number(r.valor) || 0), 0)
+  };
+};
+
+export const exitCodeFor = (rows: BatchSummaryRow[]): number => {
+  if (rows.some(r => r.outcome === 'erro')) return EXIT_ERROR;
+  if (rows.some(r => r.outcome === 'pendente')) return EXIT_PENDING;
+  return EXIT_OK;
+};
+
+// --- Manifest ---
+
+const stringList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value]).filter((v): v is string => typeof v === 'string' && !!v.trim());
+
+// { "clientes": [{ "nome", "cnpj"?, "contabil", "sefaz": arquivo, pasta ou lista }] }
+export const parseManifest = (text: string): BatchClient[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('O manifesto não é um JSON válido.');
+  }
+  const clients = Array.isArray(parsed) ? parsed : parsed?.clientes;
+  if (!Array.isArray(clients) || clients.length === 0) {
+    throw new Error('O manifesto não lista nenhum cliente (campo "clientes").');
+  }
+
+  const names = new Set<string>();
+  return clients.map((raw: any, index: number) => {
+    const name = typeof raw?.nome === 'string' ? raw.nome.trim() : '';
+    const label = name || `Cliente ${index + 1}`;
+    if (!name) throw new Error(`${label}: campo "nome" ausente.`);
+    if (names.has(name)) throw new Error(`${label}: nome repetido no manifesto.`);
+    names.add(name);
+    if (typeof raw.contabil !== 'string' || !raw.contabil.trim()) throw new Error(`${label}: campo "contabil" ausente.`);
+    const sefaz = stringList(raw.sefaz);
+    if (sefaz.length === 0) throw new Error(`${label}: campo "sefaz" ausente.`);
+    return { name, cnpj: typeof raw.cnpj === 'string' ? raw.cnpj : '', contabil: raw.contabil, sefaz };
+  });
+};
+
+// --- Summary CSV ---
+
+// "Outros" only counts statuses of other versions' sessions, never a fresh run
+const SUMMARY_STATS = STATS_ROWS.filter(s => s.key !== 'others');
+
+const csvCell = (value: string) => /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Semicolon-separated with decimal commas, the way Excel opens CSVs in pt-BR; BOM so accents survive
+export const buildSummaryCsv = (rows: BatchSummaryRow[]): string => {
+  const header = ['Cliente', 'CNPJ', 'Resultado', ...SUMMARY_STATS.map(s => s.label), 'Valor não lançado (R$)', 'Erro'];
+  const lines = rows.map(row => [
+    row.client,
+    row.cnpj,
+    row.outcome,
+    ...SUMMARY_STATS.map(s => row.stats ? String(row.stats[s.key]) : ''),
+    row.pendingValue !== undefined ? row.pendingValue.toFixed(2).replace('.', ',') : '',
+    row.error ?? ''
+  ]);
+  return '﻿' + [header, ...lines].map(line => line.map(csvCell).join(';')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { statusDistribution, monthlyTimeline, pendingByIssuer, topIssuers, statusFilter, monthFilter, issuerFilter } from './dashboardCharts';
+import { filterResults, reconcile, EMPTY_FILTERS } from './reconciler';
+import { buildPdfReport } from './pdfService';
+import { AccountingRecord, ComparisonResult, SefazRecord, MatchStatus } from '../types';
+
+const KEY_A = '26240112345678000190550010000001011000001012';
+const KEY_B = '26240112345678000190550010000001021000001028';
+const KEY_C = '26240212345678000190550010000001031000001037';
+// Issued by another company (98.765.432/0001-55)
+const KEY_D = '26240198765432000155550010000002011000002013';
+
+const sefaz = (chave: string, overrides: Partial<SefazRecord> = {}): SefazRecord => ({
+  id: chave,
+  chave,
+  numero: chave.substring(25, 34).replace(/^0+/, ''),
+  serie: '1',
+  situacao: 'Autorizada',
+  emitente: 'FORNECEDOR LTDA',
+  data: '2024-01-10',
+  valor: 100,
+  sourceRow: [],
+  ...overrides
+});
+
+const accounting: AccountingRecord[] = [{ id: KEY_A, chave: KEY_A, numero: '101', dataEmissao: '2024-01-10', valor: 100, sourceRow: [] }];
+
+const { results } = reconcile(accounting, [
+  sefaz(KEY_A),
+  sefaz(KEY_B, { valor: 50.1 }),
+  sefaz(KEY_C, { data: '', valor: 25.2 }),
+  sefaz(KEY_D, { emitente: 'OUTRO SA', valor: 900 })
+]);
+
+describe('statusDistribution', () => {
+  it('counts each status in enum order and keeps unknown ones as Outros', () => {
+    const legacy = { ...results[0], status: 'Pendente' as MatchStatus } as ComparisonResult;
+
+    expect(statusDistribution([...results, legacy])).toEqual([
+      { status: MatchStatus.MATCHED, label: MatchStatus.MATCHED, count: 1 },
+      { status: MatchStatus.MISSING_IN_ACCOUNTING, label: MatchStatus.MISSING_IN_ACCOUNTING, count: 3 },
+      { label: 'Outros', count: 1 }
+    ]);
+  });
+});
+
+describe('monthlyTimeline', () => {
+  it('splits booked and pending notes by month, using the key month for undated notes', () => {
+    expect(monthlyTimeline(results)).toEqual([
+      { month: '2024-01', booked: 1, pending: 2 },
+      { month: '2024-02', booked: 0, pending: 1 }
+    ]);
+  });
+});
+
+describe('issuer ranking', () => {
+  it('ranks issuers of unbooked notes by count or value', () => {
+    const issuers = pendingByIssuer(results);
+
+    expect(topIssuers(issuers, 'count').map(i => [i.cnpj, i.count, i.value])).toEqual([
+      ['12345678000190', 2, 75.3],
+      ['98765432000155', 1, 900]
+    ]);
+    expect(topIssuers(issuers, 'value', 1).map(i => i.emitente)).toEqual(['OUTRO SA']);
+  });
+});
+
+describe('click-to-filter', () => {
+  const shown = (patch: object) => filterResults(results, { ...EMPTY_FILTERS, ...patch }).map(r => r.chave);
+
+  it('shows the notes behind each chart segment', () => {
+    expect(shown(statusFilter({ status: MatchStatus.MATCHED, label: '', count: 1 })!)).toEqual([KEY_A]);
+    expect(statusFilter({ label: 'Outros', count: 1 })).toBeNull();
+    expect(monthFilter('2024-02', 'pending')).toMatchObject({ dateFrom: '2024-02-01', dateTo: '2024-02-29' });
+    expect(shown(monthFilter('2024-01', 'pending'))).toEqual([KEY_B, KEY_D]);
+    expect(shown(issuerFilter(pendingByIssuer(results)[1]))).toEqual([KEY_D]);
+  });
+});
+
+describe('PDF charts', () => {
+  it('adds a chart page when asked', () => {
+    const pages = (charts: boolean) => buildPdfReport(results, { title: 'Relatório', charts }).getNumberOfPages();
+
+    expect(pages(true)).toBeGreaterThan(pages(false));
+  });
+});
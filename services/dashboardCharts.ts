@@ -0,0 +1,107 @@
+import { ComparisonResult, MatchStatus, ResultFilters } from '../types';
+import { competenceOf, extractDateFromKey, parseKeyParts } from '../utils';
+import { BOOKED_STATUSES } from './reconciler';
+
+// Data behind the dashboard charts, drawn on screen by components/DashboardCharts.tsx and in the PDF report
+
+// The other side of the monthly chart from the booked notes (BOOKED_STATUSES)
+export const PENDING_STATUSES = [MatchStatus.MISSING_IN_ACCOUNTING];
+
+export interface StatusSlice {
+  status?: MatchStatus; // absent for "Outros": statuses this version doesn't know (older sessions)
+  label: string;
+  count: number;
+}
+
+export interface MonthBucket {
+  month: string; // YYYY-MM
+  booked: number;
+  pending: number;
+}
+
+export interface IssuerPending {
+  cnpj: string; // issuer CNPJ from the key
+  emitente: string; // first name found for the issuer, '' when the sources have none
+  count: number;
+  value: number;
+}
+
+// Statuses in the order of MatchStatus, empty ones left out
+export const statusDistribution = (results: ComparisonResult[]): StatusSlice[] => {
+  const counts = new Map<string, number>();
+  results.forEach(r => counts.set(r.status, (counts.get(r.status) ?? 0) + 1));
+
+  const slices: StatusSlice[] = Object.values(MatchStatus)
+    .filter(status => counts.has(status))
+    .map(status => ({ status, label: status, count: counts.get(status)! }));
+  const others = results.length - slices.reduce((sum, s) => sum + s.count, 0);
+  if (others > 0) slices.push({ label: 'Outros', count: others });
+  return slices;
+};
+
+// Booked vs pending notes per month of issue (the key's month when the note has no date), oldest first
+export const monthlyTimeline = (results: ComparisonResult[]): MonthBucket[] => {
+  const months = new Map<string, MonthBucket>();
+  results.forEach(r => {
+    const booked = BOOKED_STATUSES.includes(r.status);
+    if (!booked && !PENDING_STATUSES.includes(r.status)) return;
+    const month = competenceOf(r.data) || competenceOf(extractDateFromKey(r.chave));
+    if (!month) return;
+
+    let bucket = months.get(month);
+    if (!bucket) {
+      bucket = { month, booked: 0, pending: 0 };
+      months.set(month, bucket);
+    }
+    if (booked) bucket.booked++;
+    else bucket.pending++;
+  });
+  return Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month));
+};
+
+// Unbooked notes per issuer; rank them with topIssuers
+export const pendingByIssuer = (results: ComparisonResult[]): IssuerPending[] => {
+  const issuers = new Map<string, IssuerPending & { cents: number }>();
+  results.forEach(r => {
+    if (!PENDING_STATUSES.includes(r.status)) return;
+    const cnpj = r.cnpjEmitente ?? parseKeyParts(r.chave)?.cnpj ?? '';
+
+    let issuer = issuers.get(cnpj);
+    if (!issuer) {
+      issuer = { cnpj, emitente: '', count: 0, value: 0, cents: 0 };
+      issuers.set(cnpj, issuer);
+    }
+    issuer.emitente = issuer.emitente || r.emitente || '';
+    issuer.count++;
+    // Summed in cents to avoid floating point noise
+    issuer.cents += Math.round((Number(r.valor) || 0) * 100);
+  });
+  return Array.from(issuers.values(), ({ cents, ...issuer }) => ({ ...issuer, value: cents / 100 }));
+};
+
+export const topIssuers = (issuers: IssuerPending[], by: 'count' | 'value', limit = 10): IssuerPending[] =>
+  [...issuers]
+    .sort((a, b) => (by === 'count' ? b.count - a.count || b.value - a.value : b.value - a.value || b.count - a.count))
+    .slice(0, limit);
+
+// --- Click-to-filter: the filter changes that show a chart segment's notes in the detail table ---
+
+export const statusFilter = (slice: StatusSlice): Partial<ResultFilters> | null =>
+  slice.status ? { statuses: [slice.status] } : null;
+
+export const monthFilter = (month: string, side: 'booked' | 'pending'): Partial<ResultFilters> => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  // Day 0 of the next month is the last day of this one
+  const lastDay = new Date(year, monthNumber, 0).getDate();
+  return {
+    statuses: [...(side === 'booked' ? BOOKED_STATUSES : PENDING_STATUSES)],
+    dateFrom: `${month}-01`,
+    dateTo: `${month}-${lastDay}`
+  };
+};
+
+// By name when the sources list one; the key search finds the CNPJ otherwise
+export const issuerFilter = (issuer: IssuerPending): Partial<ResultFilters> => ({
+  statuses: [...PENDING_STATUSES],
+  ...(issuer.emitente ? { emitente: issuer.emitente } : { text: issuer.cnpj })
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { buildExcelWorkbook, buildRunDiffWorkbook, toExcelDate } from './excelService';
+import { diffRuns } from './runDiff';
+import { reconcile } from './reconciler';
+import { AccountingRecord, SefazRecord, MatchStatus, RunChange } from '../types';
+
+const KEY_A = '26240112345678000190550010000001011000001012';
+const KEY_B = '26240112345678000190550010000001021000001028';
+
+const accounting: AccountingRecord[] = [
+  { id: KEY_A, chave: KEY_A, numero: '101', dataEmissao: '2024-01-10', valor: 90, sourceRow: ['101', KEY_A, 90], sourceFile: 'uniconta.xlsx', sourceLine: 2 }
+];
+const sefaz: SefazRecord[] = [
+  { id: KEY_A, chave: KEY_A, numero: '101', serie: '1', situacao: 'Autorizada', emitente: 'FORNECEDOR LTDA', data: '2024-01-10', valor: 100, sourceRow: [KEY_A, 'Autorizada'], sourceFile: 'export.csv', sourceLine: 2 },
+  { id: KEY_B, chave: KEY_B, numero: '102', serie: '1', situacao: 'Autorizada', emitente: 'FORNECEDOR LTDA', data: '2024-01', valor: 50, sourceRow: [KEY_B, 'Autorizada'], sourceFile: 'export.csv', sourceLine: 3 }
+];
+
+describe('buildExcelWorkbook', () => {
+  const { results, stats } = reconcile(accounting, sefaz);
+  const wb = buildExcelWorkbook(results, stats, {
+    accountingFiles: ['uniconta.xlsx'],
+    sefazFiles: ['export.csv'],
+    accountingHeaders: ['Nota', 'Chave', 'Valor']
+  });
+
+  it('writes a summary sheet and one sheet per status', () => {
+    expect(wb.SheetNames).toEqual(['Resumo', ...Object.values(MatchStatus)]);
+
+    const summary = XLSX.utils.sheet_to_json<unknown[]>(wb.Sheets['Resumo'], { header: 1 });
+    expect(summary).toContainEqual(['', 'uniconta.xlsx']);
+    expect(summary).toContainEqual(['', 'export.csv']);
+    expect(summary).toContainEqual(['Total analisado', 2]);
+    expect(summary).toContainEqual(['Valor divergente', 1]);
+  });
+
+  it('types value and date cells and keeps keys as text', () => {
+    const ws = wb.Sheets[MatchStatus.VALUE_DIVERGENCE];
+    const header = XLSX.utils.sheet_to_json<string[]>(ws, { header: 1 })[0];
+    const cell = (name: string) => ws[XLSX.utils.encode_cell({ r: 1, c: header.indexOf(name) })];
+
+    expect(cell('Chave de Acesso')).toMatchObject({ t: 's', v: KEY_A });
+    expect(cell('Diferença')).toMatchObject({ t: 'n', v: -10, z: '#,##0.00' });
+    expect(toExcelDate('2024-01-10')).toBe(45301);
+    expect(cell('Data')).toMatchObject({ t: 'n', v: 45301, z: 'dd/mm/yyyy' });
+    expect(ws['!autofilter']).toEqual({ ref: ws['!ref'] });
+  });
+
+  it('appends the original rows of both sides', () => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(wb.Sheets[MatchStatus.VALUE_DIVERGENCE], { header: 1 });
+    const header = rows[0] as string[];
+
+    expect(header.slice(-5)).toEqual(['SEFAZ 1', 'SEFAZ 2', 'Contábil: Nota', 'Contábil: Chave', 'Contábil: Valor']);
+    expect(rows[1].slice(-5)).toEqual([KEY_A, 'Autorizada', '101', KEY_A, 90]);
+  });
+
+  it('keeps dates known only by month as text', () => {
+    expect(toExcelDate('2024-01')).toBe('01/2024');
+    const ws = wb.Sheets[MatchStatus.MISSING_IN_ACCOUNTING];
+    expect(ws['C2']).toMatchObject({ t: 's', v: '01/2024' });
+  });
+});
+
+describe('buildRunDiffWorkbook', () => {
+  it('writes a summary and one sheet per change', () => {
+    const previous = reconcile([], sefaz).results;
+    const current = reconcile(accounting, sefaz).results;
+    const wb = buildRunDiffWorkbook(diffRuns(previous, current), { previousRun: 'Janeiro', currentRun: 'Fevereiro' });
+
+    expect(wb.SheetNames).toEqual(['Resumo', ...Object.values(RunChange)]);
+    const summary = XLSX.utils.sheet_to_json<unknown[]>(wb.Sheets['Resumo'], { header: 1 });
+    expect(summary).toContainEqual(['Execução anterior', 'Janeiro']);
+    expect(summary).toContainEqual([RunChange.RESOLVED, 1]);
+    expect(summary).toContainEqual([RunChange.STILL_PENDING, 1]);
+  });
+});
@@ -0,0 +1,209 @@
+import * as XLSX from 'xlsx';
+import { ComparisonResult, MatchStatus, RunChange, RunDiffEntry, SummaryStats } from '../types';
+import { countRunChanges } from './runDiff';
+import { countAnnotations, RESOLUTION_LABELS } from './annotations';
+import { STATS_ROWS } from './reconciler';
+import { formatCnpj, formatDate, toIsoDate } from '../utils';
+
+export interface ExcelExportOptions {
+  accountingFiles: string[];
+  sefazFiles: string[];
+  // Header of the accounting sheet, used to label its original columns
+  accountingHeaders?: string[];
+}
+
+// Names of the two runs being compared (usually their session names)
+export interface RunDiffExportOptions {
+  previousRun: string;
+  currentRun: string;
+}
+
+type CellType = 'text' | 'number' | 'currency' | 'date';
+
+interface ExcelColumn<T = ComparisonResult> {
+  header: string;
+  type: CellType;
+  width: number;
+  value: (r: T) => unknown;
+}
+
+const CURRENCY_FORMAT = '#,##0.00';
+const DATE_FORMAT = 'dd/mm/yyyy';
+
+// Excel serial day for full dates; partial dates taken from the key stay as MM/YYYY text
+export const toExcelDate = (value: string): number | string => {
+  const iso = toIsoDate(value);
+  if (iso.length !== 10) return formatDate(iso) || value || '';
+  const [year, month, day] = iso.split('-').map(Number);
+  return (Date.UTC(year, month - 1, day) - Date.UTC(1899, 11, 30)) / 86400000;
+};
+
+const RESULT_COLUMNS: ExcelColumn[] = [
+  { header: 'Número', type: 'text', width: 12, value: r => r.numero },
+  { header: 'Série', type: 'text', width: 8, value: r => r.serie },
+  { header: 'Data', type: 'date', width: 12, value: r => r.data },
+  { header: 'Chave de Acesso', type: 'text', width: 48, value: r => r.chave },
+  { header: 'Emitente', type: 'text', width: 36, value: r => r.emitente },
+  { header: 'CNPJ Emitente', type: 'text', width: 20, value: r => r.cnpjEmitente && formatCnpj(r.cnpjEmitente) },
+  { header: 'CNPJ Destinatário', type: 'text', width: 20, value: r => r.cnpjDestinatario && formatCnpj(r.cnpjDestinatario) },
+  { header: 'Valor', type: 'currency', width: 14, value: r => r.valor },
+  { header: 'Valor SEFAZ', type: 'currency', width: 14, value: r => r.valorSefaz },
+  { header: 'Valor Contábil', type: 'currency', width: 14, value: r => r.valorContabil },
+  { header: 'Diferença', type: 'currency', width: 14, value: r => r.diferenca },
+  { header: 'Situação SEFAZ', type: 'text', width: 18, value: r => r.situacaoSefaz },
+  { header: 'Status', type: 'text', width: 24, value: r => r.status },
+  { header: 'Regra', type: 'text', width: 24, value: r => r.ignoredBy },
+  { header: 'Status original', type: 'text', width: 24, value: r => r.originalStatus },
+  { header: 'Confiança (%)', type: 'number', width: 12, value: r => r.matchConfidence },
+  { header: 'Revisão', type: 'text', width: 10, value: r => r.matchReview === 'accepted' ? 'Aceita' : r.matchReview === 'rejected' ? 'Rejeitada' : '' },
+  { header: 'Justificativa', type: 'text', width: 28, value: r => r.annotation?.category },
+  { header: 'Comentário', type: 'text', width: 40, value: r => r.annotation?.comment },
+  { header: 'Situação da anotação', type: 'text', width: 14, value: r => r.annotation && RESOLUTION_LABELS[r.annotation.resolution] },
+  { header: 'Arquivo SEFAZ', type: 'text', width: 24, value: r => r.sefazRecord?.sourceFile },
+  { header: 'Linha SEFAZ', type: 'number', width: 10, value: r => r.sefazRecord?.sourceLine },
+  { header: 'Arquivo Contábil', type: 'text', width: 24, value: r => r.accountingRecord?.sourceFile },
+  { header: 'Linha Contábil', type: 'number', width: 10, value: r => r.accountingRecord?.sourceLine },
+  { header: 'ID', type: 'text', width: 20, value: r => r.id }
+];
+
+const RUN_DIFF_COLUMNS: ExcelColumn<RunDiffEntry>[] = [
+  { header: 'Número', type: 'text', width: 12, value: e => e.numero },
+  { header: 'Data', type: 'date', width: 12, value: e => e.data },
+  { header: 'Chave de Acesso', type: 'text', width: 48, value: e => e.chave },
+  { header: 'Emitente', type: 'text', width: 36, value: e => e.emitente },
+  { header: 'Valor', type: 'currency', width: 14, value: e => e.valor },
+  { header: 'Status anterior', type: 'text', width: 24, value: e => e.previousStatus },
+  { header: 'Status atual', type: 'text', width: 24, value: e => e.currentStatus },
+  { header: 'Mudança', type: 'text', width: 22, value: e => e.change }
+];
+
+const cellValue = (value: unknown, type: CellType): unknown => {
+  if (value === undefined || value === null || value === '') return '';
+  if (type === 'date') return toExcelDate(String(value));
+  if (type === 'currency' || type === 'number') {
+    const number = typeof value === 'number' ? value : Number(value);
+    return Number.isFinite(number) ? number : String(value);
+  }
+  return value;
+};
+
+const sourceCells = (row: unknown, width: number): unknown[] =>
+  Array.from({ length: width }, (_, i) => Array.isArray(row) ? row[i] ?? '' : '');
+
+// Applies number formats per column, since aoa_to_sheet only infers the cell type
+const formatColumns = (ws: XLSX.WorkSheet, rowCount: number, types: CellType[]) => {
+  types.forEach((type, c) => {
+    const format = type === 'currency' ? CURRENCY_FORMAT : type === 'date' ? DATE_FORMAT : undefined;
+    if (!format) return;
+    for (let r = 1; r <= rowCount; r++) {
+      const cell = ws[XLSX.utils.encode_cell({ r, c })];
+      if (cell && cell.t === 'n') cell.z = format;
+    }
+  });
+};
+
+const buildStatusSheet = (results: ComparisonResult[], options: ExcelExportOptions): XLSX.WorkSheet => {
+  // Widest original row on each side decides how many source columns the sheet carries
+  const sefazWidth = Math.max(0, ...results.map(r => Array.isArray(r.sefazRecord?.sourceRow) ? r.sefazRecord!.sourceRow.length : 0));
+  const accountingWidth = Math.max(0, ...results.map(r => Array.isArray(r.accountingRecord?.sourceRow) ? r.accountingRecord!.sourceRow.length : 0));
+
+  const header = [
+    ...RESULT_COLUMNS.map(c => c.header),
+    ...Array.from({ length: sefazWidth }, (_, i) => `SEFAZ ${i + 1}`),
+    ...Array.from({ length: accountingWidth }, (_, i) => `Contábil: ${options.accountingHeaders?.[i] || `Coluna ${i + 1}`}`)
+  ];
+  const rows = results.map(r => [
+    ...RESULT_COLUMNS.map(c => cellValue(c.value(r), c.type)),
+    ...sourceCells(r.sefazRecord?.sourceRow, sefazWidth),
+    ...sourceCells(r.accountingRecord?.sourceRow, accountingWidth)
+  ]);
+
+  const ws = XLSX.utils.aoa_to_sheet([header, ...rows]);
+  formatColumns(ws, rows.length, RESULT_COLUMNS.map(c => c.type));
+  ws['!autofilter'] = { ref: ws['!ref']! };
+  ws['!cols'] = [...RESULT_COLUMNS.map(c => ({ wch: c.width })), ...Array(sefazWidth + accountingWidth).fill({ wch: 16 })];
+  return ws;
+};
+
+const buildSummarySheet = (results: ComparisonResult[], stats: SummaryStats, options: ExcelExportOptions, generatedAt: Date): XLSX.WorkSheet => {
+  const annotations = countAnnotations(results);
+  const rows: unknown[][] = [
+    ['Confronto Fiscal - Resumo'],
+    ['Gerado em', generatedAt],
+    [],
+    ['Arquivo(s) contábil(eis)'],
+    ...options.accountingFiles.map(name => ['', name]),
+    ['Arquivo(s) SEFAZ'],
+    ...options.sefazFiles.map(name => ['', name]),
+    [],
+    ['Status', 'Quantidade'],
+    ...STATS_ROWS.map(({ key, label }) => [label, stats[key]]),
+    [],
+    ['Anotações', 'Quantidade'],
+    ['Com anotação', annotations.annotated],
+    ['Resolvidas', annotations.resolved],
+    ['Ignoradas', annotations.ignored],
+    ['Não lançadas sem solução', annotations.openPending]
+  ];
+  const ws = XLSX.utils.aoa_to_sheet(rows, { dateNF: 'dd/mm/yyyy hh:mm' });
+  ws['!cols'] = [{ wch: 28 }, { wch: 48 }];
+  return ws;
+};
+
+export const buildExcelWorkbook = (
+  results: ComparisonResult[],
+  stats: SummaryStats,
+  options: ExcelExportOptions,
+  generatedAt: Date = new Date()
+): XLSX.WorkBook => {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, buildSummarySheet(results, stats, options, generatedAt), 'Resumo');
+  // Every status gets its sheet, even when empty, so the workbook layout is always the same
+  Object.values(MatchStatus).forEach(status => {
+    XLSX.utils.book_append_sheet(wb, buildStatusSheet(results.filter(r => r.status === status), options), status);
+  });
+  return wb;
+};
+
+const buildRunDiffSheet = (entries: RunDiffEntry[]): XLSX.WorkSheet => {
+  const rows = entries.map(e => RUN_DIFF_COLUMNS.map(c => cellValue(c.value(e), c.type)));
+  const ws = XLSX.utils.aoa_to_sheet([RUN_DIFF_COLUMNS.map(c => c.header), ...rows]);
+  formatColumns(ws, rows.length, RUN_DIFF_COLUMNS.map(c => c.type));
+  ws['!autofilter'] = { ref: ws['!ref']! };
+  ws['!cols'] = RUN_DIFF_COLUMNS.map(c => ({ wch: c.width }));
+  return ws;
+};
+
+// Summary plus one sheet per kind of change, in the same fixed layout as the reconciliation workbook
+export const buildRunDiffWorkbook = (
+  entries: RunDiffEntry[],
+  options: RunDiffExportOptions,
+  generatedAt: Date = new Date()
+): XLSX.WorkBook => {
+  const counts = countRunChanges(entries);
+  const summary = XLSX.utils.aoa_to_sheet([
+    ['Confronto Fiscal - Comparação entre execuções'],
+    ['Gerado em', generatedAt],
+    ['Execução anterior', options.previousRun],
+    ['Execução atual', options.currentRun],
+    [],
+    ['Mudança', 'Quantidade'],
+    ...Object.values(RunChange).map(change => [change, counts[change]])
+  ], { dateNF: 'dd/mm/yyyy hh:mm' });
+  summary['!cols'] = [{ wch: 28 }, { wch: 48 }];
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, summary, 'Resumo');
+  Object.values(RunChange).forEach(change => {
+    XLSX.utils.book_append_sheet(wb, buildRunDiffSheet(entries.filter(e => e.change === change)), change);
+  });
+  return wb;
+};
+
+export const exportRunDiffToExcel = (entries: RunDiffEntry[], options: RunDiffExportOptions) => {
+  XLSX.writeFile(buildRunDiffWorkbook(entries, options), `comparacao_execucoes_${new Date().getTime()}.xlsx`);
+};
+
+export const exportToExcel = (results: ComparisonResult[], stats: SummaryStats, options: ExcelExportOptions) => {
+  XLSX.writeFile(buildExcelWorkbook(results, stats, options), `confronto_fiscal_${new Date().getTime()}.xlsx`);
+};
@@ -0,0 +1,80 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import { applyIgnoreRules, createIgnoreRule, loadIgnoreRules, saveIgnoreRules, parseIgnoreRulesFile, serializeIgnoreRules, ruleMatches } from './ignoreRules';
+import { ComparisonResult, IgnoreRule, MatchStatus } from '../types';
+
+const KEY_A = '26240112345678000190550010000001011000001012';
+const KEY_B = '26240199888777000166550020000001021000001028';
+
+const row = (chave: string, overrides: Partial<ComparisonResult> = {}): ComparisonResult => ({
+  id: chave,
+  chave,
+  numero: '101',
+  serie: chave.substring(22, 25),
+  emitente: '',
+  data: '10/01/2024',
+  valor: 100,
+  situacaoSefaz: 'Autorizada',
+  status: MatchStatus.MISSING_IN_ACCOUNTING,
+  ...overrides
+});
+
+const rule = (overrides: Partial<IgnoreRule>): IgnoreRule => ({ ...createIgnoreRule('Energia'), ...overrides });
+
+describe('ruleMatches', () => {
+  it('matches the issuer CNPJ from the key, masked or not', () => {
+    expect(ruleMatches(rule({ cnpjs: ['12.345.678/0001-90'] }), row(KEY_A))).toBe(true);
+    expect(ruleMatches(rule({ cnpjs: ['12345678000190'] }), row(KEY_B))).toBe(false);
+  });
+
+  it('requires every filled-in criterion', () => {
+    expect(ruleMatches(rule({ series: ['1'], valueMax: 200 }), row(KEY_A))).toBe(true);
+    expect(ruleMatches(rule({ series: ['1'], valueMax: 50 }), row(KEY_A))).toBe(false);
+    expect(ruleMatches(rule({ situacao: 'denegada' }), row(KEY_A, { situacaoSefaz: 'Uso Denegado' }))).toBe(false);
+    expect(ruleMatches(rule({ situacao: 'autorizada' }), row(KEY_A))).toBe(true);
+    expect(ruleMatches(rule({ chaves: [KEY_B] }), row(KEY_B))).toBe(true);
+  });
+
+  it('never matches without criteria or when disabled', () => {
+    expect(ruleMatches(rule({}), row(KEY_A))).toBe(false);
+    expect(ruleMatches(rule({ series: ['1'], enabled: false }), row(KEY_A))).toBe(false);
+  });
+});
+
+describe('applyIgnoreRules', () => {
+  it('sets pending rows aside with the first matching rule', () => {
+    const results = applyIgnoreRules(
+      [row(KEY_A), row(KEY_B), row(KEY_A, { id: 'booked', status: MatchStatus.MATCHED })],
+      [rule({ name: 'Série 1', series: ['001'] }), rule({ name: 'Todas até 500', valueMax: 500 })]
+    );
+
+    expect(results[0]).toMatchObject({ status: MatchStatus.IGNORED_BY_RULE, ignoredBy: 'Série 1', originalStatus: MatchStatus.MISSING_IN_ACCOUNTING });
+    expect(results[1].ignoredBy).toBe('Todas até 500');
+    expect(results[2].status).toBe(MatchStatus.MATCHED);
+  });
+});
+
+describe('rule storage and files', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('persists rules locally and ignores corrupted storage', () => {
+    const rules = [rule({ series: ['1'] })];
+    saveIgnoreRules(rules);
+    expect(loadIgnoreRules()).toEqual(rules);
+
+    localStorage.setItem('confronta.ignoreRules', '{not json');
+    expect(loadIgnoreRules()).toEqual([]);
+  });
+
+  it('round-trips rules through JSON and fills missing fields', () => {
+    const rules = [rule({ cnpjs: ['12345678000190'], valueMin: 10 })];
+    expect(parseIgnoreRulesFile(serializeIgnoreRules(rules))).toEqual(rules);
+
+    const [partial] = parseIgnoreRulesFile('{"format":"confronta-ignore-rules","version":1,"rules":[{"name":"Telecom","series":["3"]}]}');
+    expect(partial).toMatchObject({ name: 'Telecom', enabled: true, series: ['3'], cnpjs: [], situacao: '' });
+  });
+
+  it('rejects other files', () => {
+    expect(() => parseIgnoreRulesFile('[]')).toThrow('não contém regras');
+  });
+});
@@ -0,0 +1,127 @@
+import { ComparisonResult, IgnoreRule, MatchStatus } from '../types';
+import { normalizeKey, normalizeHeader, parseKeyParts } from '../utils';
+
+const STORAGE_KEY = 'confronta.ignoreRules';
+
+const FILE_FORMAT = 'confronta-ignore-rules';
+const FILE_VERSION = 1;
+
+// Only rows that would otherwise need attention can be set aside; matches and cancellations stay as they are
+const IGNORABLE_STATUSES = [MatchStatus.MISSING_IN_ACCOUNTING, MatchStatus.MISSING_IN_SEFAZ, MatchStatus.VALUE_DIVERGENCE];
+
+export const createIgnoreRule = (name: string): IgnoreRule => ({
+  id: crypto.randomUUID(),
+  name,
+  enabled: true,
+  cnpjs: [],
+  series: [],
+  situacao: '',
+  chaves: []
+});
+
+const stripLeadingZeros = (value: string) => value.trim().replace(/^0+(?=\d)/, '');
+
+const hasCriteria = (rule: IgnoreRule) =>
+  rule.cnpjs.length > 0 || rule.series.length > 0 || !!rule.situacao.trim() ||
+  rule.valueMin !== undefined || rule.valueMax !== undefined || rule.chaves.length > 0;
+
+// A rule without any criterion never matches, so an empty draft can't hide every row
+export const ruleMatches = (rule: IgnoreRule, result: ComparisonResult): boolean => {
+  if (!rule.enabled || !hasCriteria(rule)) return false;
+
+  if (rule.cnpjs.length > 0) {
+    const cnpj = parseKeyParts(result.chave)?.cnpj;
+    if (!cnpj || !rule.cnpjs.some(c => normalizeKey(c) === cnpj)) return false;
+  }
+  if (rule.series.length > 0 && !rule.series.some(s => stripLeadingZeros(s) === stripLeadingZeros(result.serie || ''))) return false;
+  if (rule.situacao.trim() && !normalizeHeader(result.situacaoSefaz).includes(normalizeHeader(rule.situacao))) return false;
+  if (rule.valueMin !== undefined || rule.valueMax !== undefined) {
+    const valor = Number(result.valor);
+    if (!Number.isFinite(valor)) return false;
+    if (rule.valueMin !== undefined && valor < rule.valueMin) return false;
+    if (rule.valueMax !== undefined && valor > rule.valueMax) return false;
+  }
+  if (rule.chaves.length > 0 && !rule.chaves.some(k => normalizeKey(k) === result.chave)) return false;
+  return true;
+};
+
+// First matching rule wins; the row keeps its original status for reference
+export const applyIgnoreRules = (results: ComparisonResult[], rules: IgnoreRule[]): ComparisonResult[] => {
+  const active = rules.filter(r => r.enabled && hasCriteria(r));
+  if (active.length === 0) return results;
+
+  return results.map(r => {
+    if (!IGNORABLE_STATUSES.includes(r.status)) return r;
+    const rule = active.find(rule => ruleMatches(rule, r));
+    return rule ? { ...r, status: MatchStatus.IGNORED_BY_RULE, ignoredBy: rule.name, originalStatus: r.status } : r;
+  });
+};
+
+// --- Local storage ---
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : [];
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// Fills in anything missing from hand-edited or older files
+const normalizeRule = (raw: any): IgnoreRule => ({
+  id: typeof raw?.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+  name: typeof raw?.name === 'string' && raw.name ? raw.name : 'Regra sem nome',
+  enabled: raw?.enabled !== false,
+  cnpjs: stringList(raw?.cnpjs),
+  series: stringList(raw?.series),
+  situacao: typeof raw?.situacao === 'string' ? raw.situacao : '',
+  valueMin: optionalNumber(raw?.valueMin),
+  valueMax: optionalNumber(raw?.valueMax),
+  chaves: stringList(raw?.chaves)
+});
+
+export const loadIgnoreRules = (): IgnoreRule[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.map(normalizeRule) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveIgnoreRules = (rules: IgnoreRule[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch {
+    // Storage full or disabled: rules last until the page is closed
+  }
+};
+
+// --- JSON file ---
+
+export const serializeIgnoreRules = (rules: IgnoreRule[]): string =>
+  JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, rules }, null, 2);
+
+export const parseIgnoreRulesFile = (text: string): IgnoreRule[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('O arquivo não é um JSON válido.');
+  }
+  if (parsed?.format !== FILE_FORMAT || !Array.isArray(parsed.rules)) {
+    throw new Error('O arquivo não contém regras de desconsideração do Confronta.');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > FILE_VERSION) {
+    throw new Error('Regras geradas por uma versão mais recente do Confronta.');
+  }
+  return parsed.rules.map(normalizeRule);
+};
+
+export const exportIgnoreRulesFile = (rules: IgnoreRule[]) => {
+  const blob = new Blob([serializeIgnoreRules(rules)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'regras_desconsideracao.json';
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,42 @@
+import { ImportJob, ImportJobResults, ImportWorkerMessage } from './importJobs';
+
+export interface ImportTask<T> {
+  promise: Promise<T>;
+  // Stops the worker; the promise rejects with an AbortError
+  cancel: () => void;
+}
+
+export const isCancelled = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+// Runs one job on a dedicated worker, which is discarded when the job settles or is cancelled
+export const startImportJob = <J extends ImportJob>(
+  job: J,
+  onProgress?: (fileName: string, fraction: number) => void
+): ImportTask<ImportJobResults[J['type']]> => {
+  const worker = new Worker(new URL('./importWorker.ts', import.meta.url), { type: 'module' });
+  let cancel = () => {};
+
+  const promise = new Promise<ImportJobResults[J['type']]>((resolve, reject) => {
+    cancel = () => {
+      worker.terminate();
+      reject(new DOMException('Importação cancelada.', 'AbortError'));
+    };
+    worker.onmessage = (event: MessageEvent<ImportWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fileName, message.fraction);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.result as ImportJobResults[J['type']]);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Falha no processamento em segundo plano.'));
+    };
+  });
+
+  worker.postMessage(job);
+  return { promise, cancel };
+};
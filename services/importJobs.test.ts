@@ -0,0 +1,31 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest';
+import { runImportJob, throttleProgress } from './importJobs';
+import { SefazFileImport } from '../types';
+
+const KEY_A = '26240112345678000190550010000001011000001012';
+
+describe('runImportJob', () => {
+  it('parses SEFAZ files reporting progress per file', async () => {
+    const csv = `Chave de Acesso;Número;Situação\n${KEY_A};101;Autorizada`;
+    const onProgress = vi.fn();
+    const result = await runImportJob({ type: 'parseSefaz', files: [new File([csv], 'export.csv')], adapterId: 'auto' }, onProgress);
+
+    const [file] = result as SefazFileImport[];
+    expect(file.fileName).toBe('export.csv');
+    expect(file.records.map(r => r.chave)).toEqual([KEY_A]);
+    expect(onProgress).toHaveBeenCalledWith('export.csv', 0);
+    expect(onProgress).toHaveBeenLastCalledWith('export.csv', 1);
+  });
+});
+
+describe('throttleProgress', () => {
+  it('drops steps smaller than one percent but always reports completion', () => {
+    const onProgress = vi.fn();
+    const report = throttleProgress(onProgress);
+    [0, 0.001, 0.005, 0.02, 0.021, 1].forEach(fraction => report('a.zip', fraction));
+    report('b.zip', 0);
+
+    expect(onProgress.mock.calls).toEqual([['a.zip', 0], ['a.zip', 0.02], ['a.zip', 1], ['b.zip', 0]]);
+  });
+});
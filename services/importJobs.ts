@@ -0,0 +1,61 @@
+import { AccountingRecord, AccountingSheet, AccountingWorkbook, AccountingColumnMapping, SefazRecord, SefazFileImport, ImportResult } from '../types';
+import { readAccountingWorkbook, buildAccountingRecords, parseSefazFileList } from './parser';
+import { reconcile, ReconcileOptions, ReconcileOutput } from './reconciler';
+
+// Work handed to the import worker. Everything here must survive structured cloning (no callbacks).
+export type ImportJob =
+  | { type: 'readWorkbook'; file: File }
+  | { type: 'buildAccounting'; sheet: AccountingSheet; mapping: AccountingColumnMapping }
+  | { type: 'parseSefaz'; files: File[]; adapterId: string }
+  | { type: 'reconcile'; accounting: AccountingRecord[]; sefaz: SefazRecord[]; options: ReconcileOptions };
+
+export interface ImportJobResults {
+  readWorkbook: AccountingWorkbook;
+  buildAccounting: ImportResult<AccountingRecord>;
+  parseSefaz: SefazFileImport[];
+  reconcile: ReconcileOutput;
+}
+
+// Messages posted back by the worker
+export type ImportWorkerMessage =
+  | { type: 'progress'; fileName: string; fraction: number }
+  | { type: 'done'; result: ImportJobResults[ImportJob['type']] }
+  | { type: 'error'; message: string };
+
+export const runImportJob = async (
+  job: ImportJob,
+  onProgress: (fileName: string, fraction: number) => void
+): Promise<ImportJobResults[ImportJob['type']]> => {
+  switch (job.type) {
+    case 'readWorkbook': {
+      // SheetJS reads the workbook in one call, so only start and end are known (same for building the records)
+      onProgress(job.file.name, 0);
+      const workbook = await readAccountingWorkbook(job.file);
+      onProgress(job.file.name, 1);
+      return workbook;
+    }
+    case 'buildAccounting': {
+      onProgress(job.sheet.fileName, 0);
+      const result = buildAccountingRecords(job.sheet, job.mapping);
+      onProgress(job.sheet.fileName, 1);
+      return result;
+    }
+    case 'parseSefaz':
+      return parseSefazFileList(job.files, job.adapterId, onProgress);
+    case 'reconcile':
+      return reconcile(job.accounting, job.sefaz, job.options);
+  }
+};
+
+// Minimum change worth a progress message; ZIPs with thousands of XMLs would otherwise flood the UI
+const PROGRESS_STEP = 0.01;
+
+export const throttleProgress = (onProgress: (fileName: string, fraction: number) => void) => {
+  const lastReported = new Map<string, number>();
+  return (fileName: string, fraction: number) => {
+    const last = lastReported.get(fileName);
+    if (last !== undefined && fraction < 1 && fraction - last < PROGRESS_STEP) return;
+    lastReported.set(fileName, fraction);
+    onProgress(fileName, fraction);
+  };
+};
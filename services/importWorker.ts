@@ -0,0 +1,13 @@
+// Worker entry: parses files and reconciles off the main thread, streaming progress back
+import { runImportJob, throttleProgress, ImportJob, ImportWorkerMessage } from './importJobs';
+
+const post = (message: ImportWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ImportJob>) => {
+  try {
+    const result = await runImportJob(event.data, throttleProgress((fileName, fraction) => post({ type: 'progress', fileName, fraction })));
+    post({ type: 'done', result });
+  } catch (err: any) {
+    post({ type: 'error', message: err.message });
+  }
+};
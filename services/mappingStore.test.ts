@@ -0,0 +1,24 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import { headerSignature, loadColumnMapping, saveColumnMapping } from './mappingStore';
+
+describe('mappingStore', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('remembers a mapping per header signature', () => {
+    saveColumnMapping(['Nota', 'Chave NF-e', 'Valor'], { chave: 1, numero: 0, valor: 2, data: -1 });
+
+    expect(loadColumnMapping(['NOTA', 'Chave NF-e', 'Valor'])).toEqual({ chave: 1, numero: 0, valor: 2, data: -1 });
+    expect(loadColumnMapping(['Chave NF-e', 'Nota', 'Valor'])).toBeNull();
+  });
+
+  it('ignores corrupted storage', () => {
+    localStorage.setItem('confronta.accountingColumnMappings', '{not json');
+
+    expect(loadColumnMapping(['Chave'])).toBeNull();
+  });
+
+  it('normalises accents and casing in the signature', () => {
+    expect(headerSignature(['Número', 'Valor Contábil'])).toBe(headerSignature(['numero', 'VALOR CONTABIL']));
+  });
+});
@@ -0,0 +1,29 @@
+import { AccountingColumnMapping } from '../types';
+import { normalizeHeader } from '../utils';
+
+const STORAGE_KEY = 'confronta.accountingColumnMappings';
+
+// Same export layout => same signature, regardless of accents or casing in the header text
+export const headerSignature = (headers: string[]): string => headers.map(h => normalizeHeader(h)).join('|');
+
+const readAll = (): Record<string, AccountingColumnMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadColumnMapping = (headers: string[]): AccountingColumnMapping | null => {
+  return readAll()[headerSignature(headers)] || null;
+};
+
+export const saveColumnMapping = (headers: string[], mapping: AccountingColumnMapping) => {
+  const all = readAll();
+  all[headerSignature(headers)] = mapping;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch {
+    // Storage full or disabled: the mapping just won't be remembered
+  }
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { extractHtmlTables, parseXml, findElements, textContent, decodeEntities } from './markup';
+
+describe('decodeEntities', () => {
+  it('decodes numeric, basic and accented entities', () => {
+    expect(decodeEntities('S&eacute;rie &amp; Situa&ccedil;&atilde;o &#8211; &#xE9;')).toBe('Série & Situação – é');
+    expect(decodeEntities('1&nbsp;2')).toBe('1 2');
+    expect(decodeEntities('&desconhecida;')).toBe('&desconhecida;');
+  });
+});
+
+describe('extractHtmlTables', () => {
+  it('reads cells of every table, closing unclosed cells and rows', () => {
+    const html = `<html><head><style>td { color: red }</style></head><body>
+      <table><tr><td>Consulta</td></tr></table>
+      <TABLE>
+        <thead><tr><th>N&uacute;mero<th>Chave</thead>
+        <tr><td>101<td><b>2624</b>0112
+        <tr><td>102</td><td>x &lt; y</td></tr>
+      </TABLE>
+      <!-- <table><tr><td>comentário</td></tr></table> -->
+    </body></html>`;
+
+    // Whitespace is kept, as in the DOM's textContent
+    expect(extractHtmlTables(html).map(t => t.map(r => r.map(c => c.trim())))).toEqual([
+      [['Consulta']],
+      [['Número', 'Chave'], ['101', '26240112'], ['102', 'x < y']]
+    ]);
+  });
+
+  it('keeps nested tables separate', () => {
+    const tables = extractHtmlTables('<table><tr><td>a<table><tr><td>b</td></tr></table></td></tr></table>');
+
+    expect(tables).toEqual([[['a']], [['b']]]);
+  });
+});
+
+describe('parseXml', () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- assinatura removida -->
+<nfe:nfeProc xmlns:nfe="http://www.portalfiscal.inf.br/nfe">
+  <nfe:infNFe Id="NFe123"><nfe:emit><nfe:xNome>A &amp; B</nfe:xNome></nfe:emit><nfe:obs><![CDATA[<livre>]]></nfe:obs><vazio/></nfe:infNFe>
+</nfe:nfeProc>`;
+
+  it('builds a tree addressable by local name', () => {
+    const doc = parseXml(xml);
+    const infNFe = findElements(doc, 'infNFe')[0];
+
+    expect(infNFe.attributes.Id).toBe('NFe123');
+    expect(textContent(findElements(infNFe, 'xNome')[0])).toBe('A & B');
+    expect(textContent(findElements(doc, 'obs')[0])).toBe('<livre>');
+    expect(findElements(doc, 'vazio')).toHaveLength(1);
+  });
+
+  it('rejects malformed documents', () => {
+    expect(() => parseXml('<nfeProc><NFe>')).toThrow('não foi fechado');
+    expect(() => parseXml('<a><b></a></b>')).toThrow('Fechamento inesperado');
+    expect(() => parseXml('<a></a><b></b>')).toThrow('Mais de um elemento raiz');
+    expect(() => parseXml('não é xml')).toThrow();
+    expect(() => parseXml('<a x=1></a>')).toThrow();
+  });
+});
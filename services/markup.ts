@@ -0,0 +1,161 @@
+// Minimal HTML/XML readers for the SEFAZ parsers. DOMParser is not available inside
+// Web Workers, so the few structures we need (tables, NF-e elements) are tokenised here.
+
+// --- Entities ---
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', ordm: 'º', ordf: 'ª', deg: '°', sect: '§'
+};
+// &aacute; &ccedil; &atilde;... as base letter + combining mark
+const ACCENT_MARKS: Record<string, string> = {
+  acute: '\u0301', grave: '\u0300', circ: '\u0302', tilde: '\u0303', uml: '\u0308', cedil: '\u0327'
+};
+
+export const decodeEntities = (text: string): string => {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.substring(2), 16) : parseInt(name.substring(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    if (NAMED_ENTITIES[name]) return NAMED_ENTITIES[name];
+    const accent = /^([a-z])(acute|grave|circ|tilde|uml|cedil)$/i.exec(name);
+    return accent ? (accent[1] + ACCENT_MARKS[accent[2]]).normalize('NFC') : entity;
+  });
+};
+
+// --- HTML tables ---
+
+const RAW_TEXT_ELEMENTS = /<(script|style)\b[\s\S]*?<\/\1\s*>/gi;
+
+interface TableBuilder {
+  rows: string[][];
+  cell: string[] | null;
+}
+
+// Cell texts of every <table>, in document order (outer tables before the ones nested in them).
+// Like the DOM, unclosed <td>/<tr> are closed by the next cell or row.
+export const extractHtmlTables = (html: string): string[][][] => {
+  const source = html.replace(/<!--[\s\S]*?-->/g, '').replace(RAW_TEXT_ELEMENTS, '');
+  const tables: string[][][] = [];
+  const open: TableBuilder[] = [];
+
+  const closeCell = (table: TableBuilder) => {
+    if (!table.cell) return;
+    if (table.rows.length === 0) table.rows.push([]);
+    table.rows[table.rows.length - 1].push(decodeEntities(table.cell.join('')));
+    table.cell = null;
+  };
+
+  const token = /<(\/?)([a-z][a-z0-9]*)\b[^>]*>|([^<]+|<)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(source))) {
+    const [, closing, rawTag, text] = match;
+    const current = open[open.length - 1];
+
+    if (text !== undefined) {
+      current?.cell?.push(text);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (tag === 'table') {
+      if (closing) {
+        if (current) closeCell(current);
+        open.pop();
+      } else {
+        const table: TableBuilder = { rows: [], cell: null };
+        tables.push(table.rows);
+        open.push(table);
+      }
+    } else if (!current) {
+      continue;
+    } else if (tag === 'tr') {
+      closeCell(current);
+      if (!closing) current.rows.push([]);
+    } else if (tag === 'td' || tag === 'th') {
+      closeCell(current);
+      if (!closing) current.cell = [];
+    }
+  }
+
+  return tables;
+};
+
+// --- XML ---
+
+export interface XmlElement {
+  name: string; // local name, without namespace prefix
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const localName = (qualified: string) => qualified.substring(qualified.indexOf(':') + 1);
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const attr = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attr.exec(source))) {
+    attributes[localName(match[1])] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+};
+
+// Parses a well-formed XML document into a '#document' node holding the root element.
+// Throws on mismatched or unclosed tags, which is all the NF-e parser needs to reject a file.
+export const parseXml = (xml: string): XmlElement => {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [document];
+
+  const token = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([^\s/>]+)((?:\s+[^\s=]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/gy;
+  let match: RegExpExecArray | null;
+  while (token.lastIndex < xml.length) {
+    const position = token.lastIndex;
+    match = token.exec(xml);
+    if (!match) throw new Error(`XML malformado na posição ${position}.`);
+
+    const [, cdata, closing, tag, attributes, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (text !== undefined) {
+      if (stack.length > 1) parent.children.push(decodeEntities(text));
+      else if (text.trim()) throw new Error('Texto fora do elemento raiz.');
+    } else if (tag === undefined) {
+      // Comment, processing instruction or doctype
+    } else if (closing) {
+      if (stack.length === 1 || parent.name !== localName(tag)) throw new Error(`Fechamento inesperado de <${tag}>.`);
+      stack.pop();
+    } else {
+      if (stack.length === 1 && document.children.length > 0) throw new Error('Mais de um elemento raiz.');
+      const element: XmlElement = { name: localName(tag), attributes: parseAttributes(attributes || ''), children: [] };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) throw new Error(`Elemento <${stack[stack.length - 1].name}> não foi fechado.`);
+  if (document.children.length === 0) throw new Error('Documento XML vazio.');
+  return document;
+};
+
+// Descendants with the given local name, in document order (like getElementsByTagName)
+export const findElements = (parent: XmlElement, name: string): XmlElement[] => {
+  const found: XmlElement[] = [];
+  const visit = (node: XmlElement) => {
+    node.children.forEach(child => {
+      if (typeof child === 'string') return;
+      if (child.name === name) found.push(child);
+      visit(child);
+    });
+  };
+  visit(parent);
+  return found;
+};
+
+export const textContent = (node: XmlNode): string =>
+  typeof node === 'string' ? node : node.children.map(textContent).join('');
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+import { parseNfeXml, parseNfeZip, recordFromCancellation } from './nfeXmlParser';
+
+const KEY = '26240112345678000190550010000001011000001012';
+
+const procNFe = (cStat = '100') => `<?xml version="1.0" encoding="UTF-8"?>
+<nfeProc xmlns="http://www.portalfiscal.inf.br/nfe" versao="4.00">
+  <NFe>
+    <infNFe Id="NFe${KEY}" versao="4.00">
+      <ide><serie>1</serie><nNF>101</nNF><dhEmi>2024-01-10T09:30:00-03:00</dhEmi></ide>
+      <emit><CNPJ>12345678000190</CNPJ><xNome>FORNECEDOR LTDA</xNome></emit>
+      <dest><CNPJ>11222333000181</CNPJ><xNome>CLIENTE LTDA</xNome></dest>
+      <total><ICMSTot><vICMS>18.00</vICMS><vNF>1234.56</vNF></ICMSTot></total>
+    </infNFe>
+  </NFe>
+  <protNFe><infProt><chNFe>${KEY}</chNFe><cStat>${cStat}</cStat><xMotivo>Autorizado o uso da NF-e</xMotivo></infProt></protNFe>
+</nfeProc>`;
+
+const procEvento = (tpEvento = '110111', cStat = '135') => `<?xml version="1.0" encoding="UTF-8"?>
+<procEventoNFe xmlns="http://www.portalfiscal.inf.br/nfe" versao="1.00">
+  <evento><infEvento><chNFe>${KEY}</chNFe><dhEvento>2024-01-12T15:00:00-03:00</dhEvento><tpEvento>${tpEvento}</tpEvento></infEvento></evento>
+  <retEvento><infEvento><cStat>${cStat}</cStat></infEvento></retEvento>
+</procEventoNFe>`;
+
+describe('parseNfeXml', () => {
+  it('reads an authorised procNFe', () => {
+    const { records, cancellations } = parseNfeXml(procNFe(), 'nota.xml');
+
+    expect(cancellations).toEqual([]);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      chave: KEY,
+      numero: '101',
+      serie: '1',
+      emitente: 'FORNECEDOR LTDA',
+      data: '2024-01-10',
+      valor: 1234.56,
+      situacao: 'Autorizada',
+      cnpjDestinatario: '11222333000181'
+    });
+  });
+
+  it('maps denied protocols', () => {
+    expect(parseNfeXml(procNFe('302'), 'nota.xml').records[0].situacao).toBe('Denegada');
+  });
+
+  it('maps voided protocols and keeps the reason of unknown ones', () => {
+    expect(parseNfeXml(procNFe('102'), 'nota.xml').records[0].situacao).toBe('Inutilizada');
+    expect(parseNfeXml(procNFe('999'), 'nota.xml').records[0].situacao).toBe('Autorizado o uso da NF-e');
+  });
+
+  it('reads registered cancellation events', () => {
+    const { records, cancellations } = parseNfeXml(procEvento(), 'evento.xml');
+
+    expect(records).toEqual([]);
+    expect(cancellations).toEqual([{ chave: KEY, situacao: 'Cancelada', data: '2024-01-12', fileName: 'evento.xml' }]);
+  });
+
+  it('ignores other events and rejected cancellations, reporting why', () => {
+    const cce = parseNfeXml(procEvento('110110'), 'cce.xml');
+    expect(cce.cancellations).toEqual([]);
+    expect(cce.skipped).toEqual([{ fileName: 'cce.xml', reason: 'Evento 110110 não é de cancelamento' }]);
+    expect(parseNfeXml(procEvento('110111', '573'), 'evento.xml').cancellations).toEqual([]);
+  });
+
+  it('pairs each event of a batch with its own return', () => {
+    const OTHER_KEY = '26240112345678000190550010000001021000001028';
+    const evento = (chave: string) =>
+      `<evento><infEvento><chNFe>${chave}</chNFe><dhEvento>2024-01-12T15:00:00-03:00</dhEvento><tpEvento>110111</tpEvento><nSeqEvento>1</nSeqEvento></infEvento></evento>`;
+    const retEvento = (chave: string, cStat: string) =>
+      `<retEvento><infEvento><cStat>${cStat}</cStat><chNFe>${chave}</chNFe><tpEvento>110111</tpEvento><nSeqEvento>1</nSeqEvento></infEvento></retEvento>`;
+    const batch = `<envEvento>${evento(KEY)}${evento(OTHER_KEY)}</envEvento><retEnvEvento>${retEvento(OTHER_KEY, '135')}${retEvento(KEY, '573')}</retEnvEvento>`;
+
+    const { cancellations, skipped } = parseNfeXml(`<lote>${batch}</lote>`, 'lote.xml');
+
+    expect(cancellations.map(c => c.chave)).toEqual([OTHER_KEY]);
+    expect(skipped).toEqual([]);
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseNfeXml('<nfeProc><NFe>', 'quebrado.xml')).toThrow('quebrado.xml');
+  });
+});
+
+describe('parseNfeZip', () => {
+  it('reads every XML inside the archive', () => {
+    const zip = zipSync({
+      'nota.xml': strToU8(procNFe()),
+      'eventos/cancelamento.xml': strToU8(procEvento()),
+      'leiame.txt': strToU8('ignorado')
+    });
+    const { records, cancellations } = parseNfeZip(zip, 'lote.zip');
+
+    expect(records).toHaveLength(1);
+    expect(cancellations).toHaveLength(1);
+    expect(cancellations[0].fileName).toBe('lote.zip/eventos/cancelamento.xml');
+  });
+
+  it('reports broken entries without discarding the archive', () => {
+    const zip = zipSync({ 'nota.xml': strToU8(procNFe()), 'quebrado.xml': strToU8('<nfeProc><NFe>') });
+    const { records, documentsRead, skipped } = parseNfeZip(zip, 'lote.zip');
+
+    expect(records).toHaveLength(1);
+    expect(documentsRead).toBe(2);
+    expect(skipped).toEqual([{ fileName: 'lote.zip/quebrado.xml', reason: 'XML inválido no arquivo lote.zip/quebrado.xml.' }]);
+  });
+
+  it('rejects files that are not ZIP archives', () => {
+    expect(() => parseNfeZip(strToU8('not a zip'), 'lote.zip')).toThrow('lote.zip');
+  });
+});
+
+describe('recordFromCancellation', () => {
+  it('derives number and series from the key', () => {
+    const record = recordFromCancellation({ chave: KEY, situacao: 'Cancelada', data: '12/01/2024', fileName: 'evento.xml' });
+
+    expect(record).toMatchObject({ chave: KEY, numero: '101', serie: '1', situacao: 'Cancelada' });
+  });
+});
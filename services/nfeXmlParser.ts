@@ -0,0 +1,184 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { SefazRecord, SkippedRow, ProgressCallback, NfeCancellation } from '../types';
+import { normalizeKey, parseKeyParts, parseCurrency, toIsoDate, validateNfeKey } from '../utils';
+import { parseXml, findElements, textContent, XmlElement } from './markup';
+import { situationFromCStat } from './sefazSituation';
+
+export interface NfeXmlParseResult {
+  records: SefazRecord[];
+  cancellations: NfeCancellation[];
+  documentsRead: number;
+  // Documents that produced neither a record nor a cancellation
+  skipped: SkippedRow[];
+}
+
+// tpEvento codes for "Cancelamento" and "Cancelamento por substituição"
+const CANCEL_EVENTS = ['110111', '110112'];
+// cStat of a registered event (135: vinculado, 136: não vinculado, 155: fora de prazo)
+const REGISTERED_EVENT_STATUS = ['135', '136', '155'];
+
+const firstText = (parent: XmlElement, tag: string): string => {
+  const el = findElements(parent, tag)[0];
+  return el ? textContent(el).trim() : '';
+};
+
+// Fields that tie a retEvento to the evento it answers
+const eventIdentity = (el: XmlElement) => ({
+  chave: normalizeKey(firstText(el, 'chNFe')),
+  tpEvento: firstText(el, 'tpEvento'),
+  nSeqEvento: firstText(el, 'nSeqEvento').replace(/^0+/, '')
+});
+
+// The SEFAZ return of an event: the one with the same key, type and sequence. A document with a single
+// event may carry a terse return, so fields the return leaves out only count against it in batches.
+const findRetEvento = (evento: XmlElement, retEventos: XmlElement[], eventCount: number): XmlElement | undefined => {
+  const id = eventIdentity(evento);
+  const lenient = eventCount === 1;
+  const same = (value: string, expected: string) => value === expected || (lenient && !value);
+  return retEventos.find(retEvento => {
+    const ret = eventIdentity(retEvento);
+    return same(ret.chave, id.chave) && same(ret.tpEvento, id.tpEvento) && (!ret.nSeqEvento || ret.nSeqEvento === id.nSeqEvento);
+  });
+};
+
+// Situation label for known cStat codes; otherwise SEFAZ's own message, which the situation mapping may still recognise
+const describeProtocol = (cStat: string, xMotivo: string): string => {
+  if (!cStat) return 'Sem protocolo de autorização';
+  return situationFromCStat(cStat) ?? (xMotivo || `cStat ${cStat}`);
+};
+
+// --- Single XML document ---
+
+export const parseNfeXml = (xmlContent: string, fileName: string): NfeXmlParseResult => {
+  const result: NfeXmlParseResult = { records: [], cancellations: [], documentsRead: 1, skipped: [] };
+  const ignoredEvents: string[] = [];
+
+  let doc: XmlElement;
+  try {
+    doc = parseXml(xmlContent);
+  } catch {
+    throw new Error(`XML inválido no arquivo ${fileName}.`);
+  }
+
+  // procEventoNFe (or a bare evento)
+  const eventos = findElements(doc, 'evento');
+  const retEventos = findElements(doc, 'retEvento');
+  eventos.forEach(evento => {
+    const tpEvento = firstText(evento, 'tpEvento');
+    if (!CANCEL_EVENTS.includes(tpEvento)) {
+      ignoredEvents.push(`Evento ${tpEvento || 'desconhecido'} não é de cancelamento`);
+      return;
+    }
+
+    // Only trust events that SEFAZ registered, when the return is present
+    const retEvento = findRetEvento(evento, retEventos, eventos.length);
+    const cStat = retEvento ? firstText(retEvento, 'cStat') : '';
+    if (retEvento && !REGISTERED_EVENT_STATUS.includes(cStat)) {
+      ignoredEvents.push(`Cancelamento não homologado (cStat ${cStat})`);
+      return;
+    }
+
+    const chave = normalizeKey(firstText(evento, 'chNFe'));
+    if (!chave) return;
+
+    result.cancellations.push({
+      chave,
+      situacao: 'Cancelada',
+      data: toIsoDate(firstText(evento, 'dhEvento')),
+      fileName
+    });
+  });
+
+  // procNFe / nfeProc (or an unsigned NFe)
+  const infNFes = findElements(doc, 'infNFe');
+  infNFes.forEach(infNFe => {
+    const chave = normalizeKey(infNFe.attributes.Id || '') || normalizeKey(firstText(doc, 'chNFe'));
+    if (!chave) return;
+
+    const emit = findElements(infNFe, 'emit')[0];
+    const dest = findElements(infNFe, 'dest')[0];
+    const infProt = findElements(doc, 'infProt')[0];
+    const situacao = describeProtocol(
+      infProt ? firstText(infProt, 'cStat') : '',
+      infProt ? firstText(infProt, 'xMotivo') : ''
+    );
+
+    const numero = firstText(infNFe, 'nNF');
+    const serie = firstText(infNFe, 'serie');
+    const emitente = emit ? firstText(emit, 'xNome') : '';
+    const cnpj = emit ? firstText(emit, 'CNPJ') || firstText(emit, 'CPF') : '';
+    // dhEmi from layout 3.10 onwards, dEmi on 2.00
+    const data = toIsoDate(firstText(infNFe, 'dhEmi') || firstText(infNFe, 'dEmi'));
+    const icmsTot = findElements(infNFe, 'ICMSTot')[0];
+    const valor = icmsTot ? parseCurrency(firstText(icmsTot, 'vNF')) : undefined;
+
+    result.records.push({
+      id: chave,
+      chave,
+      keyError: validateNfeKey(chave) || undefined,
+      numero,
+      serie,
+      situacao,
+      emitente,
+      data,
+      valor,
+      cnpjDestinatario: dest ? firstText(dest, 'CNPJ') || firstText(dest, 'CPF') || undefined : undefined,
+      sourceRow: [chave, numero, serie, emitente, cnpj, data, valor, situacao, fileName],
+      sourceFile: fileName
+    });
+  });
+
+  if (result.records.length === 0 && result.cancellations.length === 0) {
+    const reason = ignoredEvents[0] || 'Documento sem NF-e nem evento de cancelamento';
+    result.skipped.push({ fileName, reason });
+  }
+
+  return result;
+};
+
+// --- ZIP archive of XMLs ---
+
+export const parseNfeZip = (data: Uint8Array, fileName: string, onProgress?: ProgressCallback): NfeXmlParseResult => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(data, { filter: entry => entry.name.toLowerCase().endsWith('.xml') });
+  } catch {
+    throw new Error(`Arquivo ZIP inválido: ${fileName}.`);
+  }
+
+  const result: NfeXmlParseResult = { records: [], cancellations: [], documentsRead: 0, skipped: [] };
+  const entryList = Object.entries(entries);
+  entryList.forEach(([entryName, content], i) => {
+    onProgress?.(i / entryList.length);
+    const entryFileName = `${fileName}/${entryName}`;
+    result.documentsRead++;
+    try {
+      const parsed = parseNfeXml(strFromU8(content), entryFileName);
+      result.records.push(...parsed.records);
+      result.cancellations.push(...parsed.cancellations);
+      result.skipped.push(...parsed.skipped);
+    } catch (err: any) {
+      // One broken XML should not discard the rest of the archive
+      result.skipped.push({ fileName: entryFileName, reason: err.message });
+    }
+  });
+
+  return result;
+};
+
+// Record for a cancellation whose authorised XML was not imported, built from the key itself
+export const recordFromCancellation = (cancellation: NfeCancellation): SefazRecord => {
+  const parts = parseKeyParts(cancellation.chave);
+  return {
+    id: cancellation.chave,
+    chave: cancellation.chave,
+    keyError: validateNfeKey(cancellation.chave) || undefined,
+    numero: parts ? String(parseInt(parts.numero, 10)) : '',
+    serie: parts ? String(parseInt(parts.serie, 10)) : '',
+    situacao: cancellation.situacao,
+    emitente: '',
+    data: cancellation.data,
+    sourceRow: [cancellation.chave, cancellation.situacao, cancellation.data, cancellation.fileName],
+    sourceFile: cancellation.fileName
+  };
+};
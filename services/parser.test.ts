@@ -0,0 +1,266 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { parseSefazFiles, parseSefazFile, mergeSefazFiles, classifyFileContent, sniffFileSide, detectSefazAdapter, splitCsv, guessAccountingMapping, buildAccountingRecords, readAccountingWorkbook, findHeaderCandidates, bestAccountingSheet, parseAccountingFile } from './parser';
+
+const KEY_A = '26240112345678000190550010000001011000001012';
+const KEY_B = '26240112345678000190550010000001021000001028';
+
+const efiscoHtml = `<html><body>
+<table><tr><td>Consulta NF-e</td></tr></table>
+<table>
+  <tr><th>Número</th><th>Série</th><th>Chave de Acesso</th><th>Emitente</th><th>CNPJ Emitente</th><th>Data Emissão</th><th>Valor ICMS</th><th>Valor Total</th><th>Situação</th></tr>
+  <tr><td>101</td><td>1</td><td>${KEY_A}</td><td>FORNECEDOR LTDA</td><td>12.345.678/0001-90</td><td>10/01/2024</td><td>18,00</td><td>1.234,56</td><td>Autorizada</td></tr>
+  <tr><td>102</td><td>1</td><td>${KEY_B}</td><td>FORNECEDOR LTDA</td><td>12.345.678/0001-90</td><td></td><td>0,00</td><td>50,00</td><td>Cancelada</td></tr>
+</table>
+</body></html>`;
+
+const portalCsv = [
+  'Chave de Acesso;Número NF-e;Série;Data Emissão;CNPJ Emitente;Razão Social Emitente;CNPJ Destinatário;Valor Total;Situação',
+  `"${KEY_A}";101;1;2024-01-10;12345678000190;"FORNECEDOR; LTDA";11.222.333/0001-81;1234,56;Autorizado o uso`,
+  `"${KEY_B}";102;1;2024-01-11;12345678000190;FORNECEDOR LTDA;;50,00;CANCELADA`
+].join('\r\n');
+
+describe('detectSefazAdapter', () => {
+  it('picks the adapter from the file name or its content', async () => {
+    expect((await detectSefazAdapter(new File([efiscoHtml], 'pagina1.html'))).id).toBe('pe-efisco-html');
+    expect((await detectSefazAdapter(new File([portalCsv], 'export.csv'))).id).toBe('csv-nfe');
+    expect((await detectSefazAdapter(new File([portalCsv], 'export'))).id).toBe('csv-nfe');
+    expect((await detectSefazAdapter(new File(['<nfeProc></nfeProc>'], 'nota'))).id).toBe('nfe-xml');
+  });
+
+  it('rejects unknown formats', async () => {
+    await expect(detectSefazAdapter(new File(['qualquer coisa'], 'notas.pdf'))).rejects.toThrow('notas.pdf');
+  });
+});
+
+describe('mergeSefazFiles', () => {
+  it('adds and removes files one at a time, keeping the first record of a duplicated key', async () => {
+    const html = await parseSefazFile(new File([efiscoHtml], 'pagina1.html'));
+    const csv = await parseSefazFile(new File([portalCsv], 'export.csv'));
+    expect(html).toMatchObject({ fileName: 'pagina1.html', format: expect.any(String), rowsRead: 2 });
+
+    const both = mergeSefazFiles([html, csv]);
+    expect(both.records).toHaveLength(2);
+    expect(both.records[0].valor).toBe(1234.56);
+    expect(both.report.files.map(f => [f.fileName, f.recordsImported])).toEqual([['pagina1.html', 2], ['export.csv', 2]]);
+    expect(both.report.duplicates).toHaveLength(2);
+
+    const withoutHtml = mergeSefazFiles([csv]);
+    expect(withoutHtml.records.map(r => r.situacao)).toEqual(['Autorizada', 'Cancelada']);
+    expect(withoutHtml.report.duplicates).toEqual([]);
+    expect(mergeSefazFiles([]).records).toEqual([]);
+  });
+});
+
+describe('classifyFileContent', () => {
+  it('tells spreadsheets from SEFAZ files by their content', () => {
+    expect(classifyFileContent('ÐÏ\u0011à¡±\u001aá\u0000\u0000')).toBe('accounting');
+    expect(classifyFileContent('PK\u0003\u0004[Content_Types].xml', 'xl/workbook.xml')).toBe('accounting');
+    expect(classifyFileContent('PK\u0003\u0004nota1.xml', 'nota1.xml nota2.xml')).toBe('sefaz');
+    expect(classifyFileContent('<?xml version="1.0"?><Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet">')).toBe('accounting');
+    expect(classifyFileContent('﻿<?xml version="1.0"?><nfeProc versao="4.00">')).toBe('sefaz');
+    expect(classifyFileContent(efiscoHtml)).toBe('sefaz');
+    expect(classifyFileContent(portalCsv)).toBe('sefaz');
+    expect(classifyFileContent('Nota;Chave NF-e;Fornecedor;Valor Contábil\r\n101;123;X;10,00')).toBe('accounting');
+    expect(classifyFileContent('relatório sem colunas')).toBeNull();
+    expect(classifyFileContent('<svg></svg>')).toBeNull();
+  });
+
+  it('ignores the extension of the file', async () => {
+    expect(await sniffFileSide(new File([portalCsv], 'planilha.xlsx'))).toBe('sefaz');
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Nota', 'Chave', 'Valor'], ['101', KEY_A, 10]]), 'Notas');
+    const xlsx = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+    expect(await sniffFileSide(new File([xlsx], 'notas.zip'))).toBe('accounting');
+  });
+});
+
+describe('parseSefazFiles', () => {
+  it('reads the e-Fisco table, preferring the total value column', async () => {
+    const { records } = await parseSefazFiles([new File([efiscoHtml], 'pagina1.html')]);
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({ chave: KEY_A, numero: '101', emitente: 'FORNECEDOR LTDA', valor: 1234.56, situacao: 'Autorizada' });
+    expect(records[1].data).toBe('2024-01');
+  });
+
+  it('reads CSV layouts and normalises their status text', async () => {
+    const { records } = await parseSefazFiles([new File([portalCsv], 'export.csv')]);
+
+    expect(records.map(r => r.situacao)).toEqual(['Autorizada', 'Cancelada']);
+    expect(records[0]).toMatchObject({ numero: '101', serie: '1', data: '2024-01-10', emitente: 'FORNECEDOR; LTDA', valor: 1234.56, cnpjDestinatario: '11222333000181' });
+    expect(records[1].cnpjDestinatario).toBeUndefined();
+  });
+
+  it('honours a forced adapter', async () => {
+    await expect(parseSefazFiles([new File([portalCsv], 'export.html')], 'pe-efisco-html')).rejects.toThrow('export.html');
+    expect((await parseSefazFiles([new File([portalCsv], 'export.html')], 'csv-nfe')).records).toHaveLength(2);
+  });
+
+  it('deduplicates keys across mixed sources and reports where they appear', async () => {
+    const { records, report } = await parseSefazFiles([new File([efiscoHtml], 'pagina1.html'), new File([portalCsv], 'export.csv')]);
+
+    expect(records).toHaveLength(2);
+    expect(report.duplicates).toHaveLength(2);
+    expect(report.duplicates[0]).toEqual({
+      chave: KEY_A,
+      occurrences: [{ fileName: 'pagina1.html', row: 2 }, { fileName: 'export.csv', row: 2 }]
+    });
+  });
+
+  it('reports rows read, skipped rows and the columns used per file', async () => {
+    const csv = portalCsv + '\r\n;103;1;2024-01-12;12345678000190;X;;1,00;Autorizada\r\n"2624011234";104;1;2024-01-12;12345678000190;X;;1,00;Autorizada';
+    const { records, report } = await parseSefazFiles([new File([csv], 'export.csv')]);
+
+    expect(records).toHaveLength(2);
+    expect(report.files).toEqual([expect.objectContaining({ fileName: 'export.csv', rowsRead: 4, recordsImported: 2 })]);
+    expect(report.files[0].columns).toMatchObject({ chave: 'Chave de Acesso', valor: 'Valor Total' });
+    expect(report.skipped).toEqual([
+      { fileName: 'export.csv', row: 4, reason: 'Sem chave de acesso' },
+      { fileName: 'export.csv', row: 5, reason: 'Chave curta (10 dígitos)' }
+    ]);
+  });
+});
+
+describe('splitCsv', () => {
+  it('detects the delimiter and keeps quoted separators', () => {
+    expect(splitCsv('a,b\n"1,5",2\n')).toEqual([['a', 'b'], ['1,5', '2']]);
+    expect(splitCsv('a\tb\r\n1\t"x ""y"""')).toEqual([['a', 'b'], ['1', 'x "y"']]);
+  });
+});
+
+describe('guessAccountingMapping', () => {
+  it('prefers exact names over columns that merely contain them', () => {
+    const headers = ['Data Lançamento', 'Nota', 'Valor ICMS', 'Valor Contábil', 'Data Emissão', 'ChaveNFe'];
+
+    expect(guessAccountingMapping(headers)).toEqual({ chave: 5, numero: 1, valor: 3, data: 4 });
+  });
+
+  it('leaves fields without a plausible column unmapped', () => {
+    expect(guessAccountingMapping(['Conta', 'Histórico', 'Valor IPI'])).toEqual({ chave: -1, numero: -1, valor: -1, data: -1 });
+  });
+});
+
+describe('buildAccountingRecords', () => {
+  const sheet = {
+    fileName: 'uniconta.xlsx',
+    sheetName: 'Plan1',
+    headerRow: 0,
+    headers: ['Nota', 'Chave', 'Valor'],
+    rows: [['101', KEY_A, '1.234,56'], [], ['', '', '10,00'], ['103', KEY_B, '']]
+  };
+
+  it('builds records with the chosen columns and skips rows without a key or number', () => {
+    const { records } = buildAccountingRecords(sheet, { chave: 1, numero: 0, valor: 2, data: -1 });
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({ chave: KEY_A, numero: '101', valor: 1234.56, dataEmissao: '2024-01' });
+    expect(records[1].valor).toBe(0);
+  });
+
+  it('keeps keyless rows that have a note number for fallback matching', () => {
+    const { records } = buildAccountingRecords(
+      { ...sheet, rows: [['102', '', '10,00']] },
+      { chave: 1, numero: 0, valor: 2, data: -1 }
+    );
+
+    expect(records).toEqual([expect.objectContaining({ id: 'linha-2', chave: '', numero: '102', keyError: 'Sem chave de acesso' })]);
+  });
+
+  it('reports skipped rows with their spreadsheet line and keeps duplicates', () => {
+    const { records, report } = buildAccountingRecords(
+      { ...sheet, rows: [...sheet.rows, ['101', KEY_A, '1,00']] },
+      { chave: 1, numero: 0, valor: 2, data: -1 }
+    );
+
+    expect(records).toHaveLength(3);
+    expect(report.files[0]).toMatchObject({ rowsRead: 4, recordsImported: 3, columns: { chave: 'Chave', numero: 'Nota', valor: 'Valor' } });
+    expect(report.skipped).toEqual([{ fileName: 'uniconta.xlsx', row: 4, reason: 'Sem chave de acesso' }]);
+    expect(report.duplicates).toEqual([{
+      chave: KEY_A,
+      occurrences: [{ fileName: 'uniconta.xlsx', row: 2 }, { fileName: 'uniconta.xlsx', row: 6 }]
+    }]);
+  });
+
+  it('flags keys that fail validation', () => {
+    const { records } = buildAccountingRecords(
+      { ...sheet, rows: [['101', '2.62401E+43', '1,00'], ['102', KEY_A.substring(0, 43) + '9', '1,00'], ['103', KEY_B, '1,00']] },
+      { chave: 1, numero: 0, valor: 2, data: -1 }
+    );
+
+    expect(records.map(r => r.keyError)).toEqual(['Chave em notação científica (formato do Excel)', 'Dígito verificador inválido', undefined]);
+  });
+
+  it('requires the key column', () => {
+    expect(() => buildAccountingRecords(sheet, { chave: -1, numero: 0, valor: 2, data: -1 })).toThrow('Chave');
+  });
+});
+
+describe('accounting workbook structure', () => {
+  const workbookFile = () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['Resumo'], ['Total', 2]]), 'Capa');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+      ['EMPRESA EXEMPLO LTDA'],
+      ['Relatório de Entradas - 01/2024'],
+      [],
+      ['Nota', 'Data Emissão', 'Chave NF-e', 'Valor Contábil'],
+      ['101', '10/01/2024', KEY_A, '1.234,56'],
+      ['102', '11/01/2024', KEY_B, '50,00']
+    ]), 'Entradas');
+    const data = XLSX.write(wb, { type: 'array', bookType: 'xlsx' });
+    return new File([data], 'uniconta.xlsx');
+  };
+
+  it('finds the header row below a title block on another sheet', async () => {
+    const workbook = await readAccountingWorkbook(workbookFile());
+    const candidates = findHeaderCandidates(workbook);
+
+    expect(workbook.sheets.map(s => s.name)).toEqual(['Capa', 'Entradas']);
+    expect(candidates).toEqual([{ sheetName: 'Entradas', headerRow: 3, score: 4 }]);
+
+    const sheet = bestAccountingSheet(workbook, candidates);
+    expect(sheet.headers).toEqual(['Nota', 'Data Emissão', 'Chave NF-e', 'Valor Contábil']);
+    expect(sheet.rows).toHaveLength(2);
+  });
+
+  it('ranks candidates by the number of recognised fields', () => {
+    const workbook = {
+      fileName: 'x.xlsx',
+      sheets: [
+        { name: 'A', rows: [['Chave']] },
+        { name: 'B', rows: [['Nota', 'Chave', 'Valor']] }
+      ]
+    };
+
+    expect(findHeaderCandidates(workbook).map(c => c.sheetName)).toEqual(['B', 'A']);
+  });
+
+  it('parses the best sheet end to end', async () => {
+    const { records } = await parseAccountingFile(workbookFile());
+
+    expect(records.map(r => r.chave)).toEqual([KEY_A, KEY_B]);
+    expect(records[0]).toMatchObject({ numero: '101', dataEmissao: '2024-01-10', valor: 1234.56 });
+  });
+
+  it('reads formatted number cells by their value', async () => {
+    const worksheet = XLSX.utils.aoa_to_sheet([['Nota', 'Chave', 'Valor'], ['101', KEY_A, 1234.56]]);
+    worksheet['C2'].z = '#,##0.00';
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, worksheet, 'Notas');
+    const xlsx = new File([XLSX.write(wb, { type: 'array', bookType: 'xlsx' })], 'contabil.xlsx');
+
+    expect((await parseAccountingFile(xlsx)).records[0].valor).toBe(1234.56);
+  });
+
+  it('reads date cells and CSV dates day-first', async () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['Nota', 'Data', 'Chave'], ['101', new Date(2024, 0, 10), KEY_A]]), 'Notas');
+    const xlsx = new File([XLSX.write(wb, { type: 'array', bookType: 'xlsx' })], 'contabil.xlsx');
+    const csv = new File([`Nota;Data;Chave\n101;10/01/2024;${KEY_A}\n`], 'contabil.csv');
+
+    expect((await parseAccountingFile(xlsx)).records[0].dataEmissao).toBe('2024-01-10');
+    expect((await parseAccountingFile(csv)).records[0]).toMatchObject({ chave: KEY_A, dataEmissao: '2024-01-10' });
+  });
+});
@@ -1,201 +1,631 @@
 import * as XLSX from 'xlsx';
-import { AccountingRecord, SefazRecord } from '../types';
-import { normalizeHeader, normalizeKey, extractDateFromKey } from '../utils';
+import { AccountingRecord, AccountingSheet, AccountingWorkbook, AccountingColumnMapping, HeaderCandidate, SefazRecord, SkippedRow, DuplicateKey, ImportResult, ImportReport, FileImportSummary, ProgressCallback, NfeCancellation, SefazFileImport } from '../types';
+import { normalizeHeader, normalizeKey, extractDateFromKey, parseCurrency, toIsoDate, validateNfeKey } from '../utils';
+import { parseNfeXml, parseNfeZip, recordFromCancellation } from './nfeXmlParser';
+import { extractHtmlTables } from './markup';
+import { normalizeSituacao } from './sefazSituation';
 
-// --- Excel Parser ---
+// --- File reading helpers ---
 
-export const parseAccountingFile = async (file: File): Promise<AccountingRecord[]> => {
+// FileReader where there is one (browser, worker); Node only has Blob.arrayBuffer
+const readFileBuffer = (file: Blob): Promise<ArrayBuffer> => {
+  if (typeof FileReader === 'undefined') return file.arrayBuffer();
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        
-        // Use raw: false to get formatted strings
-        const jsonData = XLSX.utils.sheet_to_json<any[]>(worksheet, { 
-            header: 1, 
-            raw: false, 
-            dateNF: 'dd/mm/yyyy' 
-        });
+    reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
+    reader.onerror = () => reject(new Error(`Erro ao ler o arquivo ${file instanceof File ? file.name : ''}.`));
+    reader.readAsArrayBuffer(file);
+  });
+};
 
-        if (!jsonData || jsonData.length === 0) {
-          throw new Error("Arquivo vazio ou inválido.");
-        }
+// Without an explicit encoding, UTF-8 is tried first and latin1 used when the bytes are not valid UTF-8
+const readFileText = async (file: Blob, encoding?: string): Promise<string> => {
+  const buffer = await readFileBuffer(file);
+  if (encoding) return new TextDecoder(encoding).decode(buffer);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('iso-8859-1').decode(buffer);
+  }
+};
 
-        const headers = jsonData[0].map((h: any) => normalizeHeader(h));
-        const records: AccountingRecord[] = [];
+// --- Import report helpers ---
 
-        // Map column indexes
-        const idxChave = headers.findIndex((h: string) => h.includes('chave') || h.includes('chavenfe'));
-        const idxNumero = headers.findIndex((h: string) => h === 'numero' || h === 'numero_nota' || h.includes('nota'));
-        const idxValor = headers.findIndex((h: string) => h.includes('valor') || h.includes('contabil'));
-        const idxData = headers.findIndex((h: string) => h.includes('emissao') || h.includes('data'));
+// Keeps the first record of each key and lists every occurrence of the repeated ones
+export const findDuplicateKeys = <T extends { chave: string; sourceFile?: string; sourceLine?: number }>(records: T[]) => {
+  const unique = new Map<string, T>();
+  const duplicates = new Map<string, DuplicateKey>();
 
-        if (idxChave === -1) {
-          throw new Error("Coluna 'Chave' ou 'ChaveNFe' não encontrada no arquivo contábil.");
-        }
+  records.forEach(record => {
+    if (!record.chave) return;
+    const first = unique.get(record.chave);
+    if (!first) {
+      unique.set(record.chave, record);
+      return;
+    }
+    if (!duplicates.has(record.chave)) {
+      duplicates.set(record.chave, { chave: record.chave, occurrences: [{ fileName: first.sourceFile || '', row: first.sourceLine }] });
+    }
+    duplicates.get(record.chave)!.occurrences.push({ fileName: record.sourceFile || '', row: record.sourceLine });
+  });
 
-        for (let i = 1; i < jsonData.length; i++) {
-          const row = jsonData[i] as any[];
-          if (!row || row.length === 0) continue;
-
-          const rawKey = row[idxChave];
-          if (!rawKey) continue;
-          
-          const chaveStr = normalizeKey(rawKey.toString());
-          let dataEmissao = idxData !== -1 ? row[idxData]?.toString() : '';
-          
-          // Fallback: extract date from key if missing
-          if (!dataEmissao) {
-            dataEmissao = extractDateFromKey(chaveStr);
-          }
-
-          records.push({
-            id: chaveStr,
-            chave: chaveStr,
-            numero: idxNumero !== -1 ? row[idxNumero]?.toString() : '',
-            valor: idxValor !== -1 ? parseFloat(row[idxValor]?.toString().replace('R$', '').replace(/\./g, '').replace(',', '.') || '0') : 0,
-            dataEmissao: dataEmissao,
-            sourceRow: row
-          });
-        }
-        resolve(records);
-      } catch (err) {
-        reject(err);
-      }
-    };
-    reader.onerror = () => reject(new Error("Erro ao ler o arquivo."));
-    reader.readAsArrayBuffer(file);
+  return { unique: Array.from(unique.values()), duplicates: Array.from(duplicates.values()) };
+};
+
+const columnsFromHeaders = (headerMap: Partial<Record<string, number>>, headers: string[]): Record<string, string> => {
+  const columns: Record<string, string> = {};
+  Object.entries(headerMap).forEach(([field, idx]) => {
+    if (idx !== undefined && idx !== -1) columns[field] = (headers[idx] || `Coluna ${idx + 1}`).trim();
   });
+  return columns;
 };
 
-// --- HTML Parser (Single File) ---
+// --- Excel Parser ---
 
-export const parseSefazHtml = async (file: File): Promise<SefazRecord[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const htmlContent = e.target?.result as string;
-        const parser = new DOMParser();
-        const doc = parser.parseFromString(htmlContent, "text/html");
-        
-        // Find the main table. We look for specific headers.
-        const tables = Array.from(doc.querySelectorAll("table"));
-        let targetTable: HTMLTableElement | null = null;
-        let headerMap: Record<string, number> = {};
-
-        const requiredHeaders = ['chave', 'situacao'];
-
-        for (const table of tables) {
-            const rows = Array.from(table.rows);
-            // Search first few rows for headers
-            for(let r = 0; r < Math.min(rows.length, 5); r++) {
-                const cells = Array.from(rows[r].cells);
-                const cellTexts = cells.map(c => normalizeHeader(c.textContent || ""));
-                
-                const hasAll = requiredHeaders.every(req => cellTexts.some(txt => txt.includes(req)));
-                
-                if (hasAll) {
-                    targetTable = table;
-                    // Build map
-                    cellTexts.forEach((txt, idx) => {
-                        if (txt.includes('chave')) headerMap['chave'] = idx;
-                        else if (txt.includes('situacao')) headerMap['situacao'] = idx;
-                        else if (txt.includes('numero') || txt === 'nota') headerMap['numero'] = idx;
-                        else if (txt.includes('serie')) headerMap['serie'] = idx;
-                        else if (txt.includes('emitente') && !txt.includes('cnpj')) headerMap['emitente'] = idx;
-                        else if (txt.includes('data') || txt.includes('emissao')) headerMap['data'] = idx;
-                    });
-                    break;
-                }
-            }
-            if (targetTable) break;
-        }
+// Number cells go back to their value: a "#,##0.00" format renders 1234.56 as "1,234.56", which reads as
+// Brazilian 1,23456. Date cells are numbers too and stay formatted.
+const keepNumericValues = (worksheet: XLSX.WorkSheet, rows: any[][]): any[][] => {
+  if (!worksheet['!ref']) return rows;
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  rows.forEach((row, r) => {
+    row.forEach((_, c) => {
+      const cell: XLSX.CellObject | undefined = worksheet[XLSX.utils.encode_cell({ r: range.s.r + r, c: range.s.c + c })];
+      if (cell?.t === 'n' && !(cell.z && XLSX.SSF.is_date(cell.z))) row[c] = cell.v;
+    });
+  });
+  return rows;
+};
 
-        if (!targetTable) {
-            // Note: If parsing fails for one file in a batch, we might want to just return empty or throw specific error.
-            // For now, we throw.
-            throw new Error(`Tabela de notas não encontrada no arquivo ${file.name}.`);
-        }
+export const readAccountingWorkbook = async (file: File): Promise<AccountingWorkbook> => {
+  const data = new Uint8Array(await readFileBuffer(file));
+  // raw: CSV text stays as typed instead of being read as month-first dates;
+  // dateNF: cells in the locale's short date format (Excel format 14) render day-first
+  const workbook = XLSX.read(data, { type: 'array', raw: true, dateNF: 'dd/mm/yyyy' });
 
-        const records: SefazRecord[] = [];
-        const rows = Array.from(targetTable.rows);
-
-        // Start skipping header rows.
-        for (const row of rows) {
-            const cells = Array.from(row.cells);
-            // Basic validation
-            if (cells.length < 3) continue;
-            
-            // Skip header row itself
-            if (cells[headerMap['chave']]?.textContent?.toLowerCase().includes('chave')) continue;
-
-            const getVal = (key: string) => {
-                const idx = headerMap[key];
-                return idx !== undefined && cells[idx] ? cells[idx].textContent?.trim() || "" : "";
-            }
-
-            const chave = normalizeKey(getVal('chave'));
-            let data = getVal('data');
-
-            // Fallback: extract date from key if missing
-            if (!data) {
-                data = extractDateFromKey(chave);
-            }
-            
-            if (chave && chave.length > 20) {
-                records.push({
-                    id: chave,
-                    chave: chave,
-                    numero: getVal('numero'),
-                    serie: getVal('serie'),
-                    situacao: getVal('situacao'),
-                    emitente: getVal('emitente'),
-                    data: data,
-                    sourceRow: cells.map(c => c.innerText)
-                });
-            }
-        }
+  const sheets = workbook.SheetNames.map(name => ({
+    name,
+    // Use raw: false to get formatted strings
+    rows: keepNumericValues(workbook.Sheets[name], XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[name], {
+        header: 1,
+        raw: false,
+        dateNF: 'dd/mm/yyyy'
+    }))
+  }));
+
+  if (sheets.every(sheet => sheet.rows.length === 0)) {
+    throw new Error("Arquivo vazio ou inválido.");
+  }
+
+  return { fileName: file.name, sheets };
+};
+
+export const buildAccountingSheet = (workbook: AccountingWorkbook, sheetName: string, headerRow: number): AccountingSheet => {
+  const sheet = workbook.sheets.find(s => s.name === sheetName) || workbook.sheets[0];
+  return {
+    fileName: workbook.fileName,
+    sheetName: sheet.name,
+    headerRow,
+    headers: Array.from(sheet.rows[headerRow] || [], (h: any) => (h ?? '').toString()),
+    rows: sheet.rows.slice(headerRow + 1)
+  };
+};
+
+// Returns the first column accepted by the earliest rule, so exact names win over loose matches
+const pickColumn = (headers: string[], rules: ((h: string) => boolean)[]): number => {
+  for (const rule of rules) {
+    const idx = headers.findIndex(h => h && rule(h));
+    if (idx !== -1) return idx;
+  }
+  return -1;
+};
 
-        resolve(records);
+const TAX_OR_ADJUSTMENT = /(icms|ipi|pis|cofins|iss|_st|st_|desconto|frete|seguro|base|imposto|aliquota)/;
 
-      } catch (err) {
-        reject(err);
-      }
+export const guessAccountingMapping = (rawHeaders: string[]): AccountingColumnMapping => {
+  const headers = rawHeaders.map(h => normalizeHeader(h));
+  return {
+    chave: pickColumn(headers, [
+      h => ['chave', 'chavenfe', 'chave_nfe', 'chave_de_acesso', 'chave_acesso'].includes(h),
+      h => h.includes('chave')
+    ]),
+    numero: pickColumn(headers, [
+      h => ['numero', 'numero_nota', 'numero_nf', 'nota', 'nf', 'nota_fiscal'].includes(h),
+      h => h.includes('nota') && !h.includes('chave') && !h.includes('valor') && !h.includes('data'),
+      h => h.includes('numero')
+    ]),
+    valor: pickColumn(headers, [
+      h => ['valor', 'valor_contabil', 'valor_total', 'valor_nota', 'valor_documento', 'contabil'].includes(h),
+      h => (h.includes('valor_contabil') || h.includes('valor_total')) && !TAX_OR_ADJUSTMENT.test(h),
+      h => h.includes('valor') && !TAX_OR_ADJUSTMENT.test(h)
+    ]),
+    data: pickColumn(headers, [
+      h => ['data', 'data_emissao', 'dt_emissao', 'emissao', 'data_documento'].includes(h),
+      h => h.includes('emissao'),
+      h => h.includes('data') && !h.includes('lancamento') && !h.includes('entrada') && !h.includes('vencimento')
+    ])
+  };
+};
+
+export const ACCOUNTING_HEADER_SCAN_ROWS = 20;
+
+// Scans the first rows of every sheet for rows with a key column, best candidates first
+export const findHeaderCandidates = (workbook: AccountingWorkbook, scanRows: number = ACCOUNTING_HEADER_SCAN_ROWS): HeaderCandidate[] => {
+  const candidates: HeaderCandidate[] = [];
+
+  workbook.sheets.forEach(sheet => {
+    for (let r = 0; r < Math.min(sheet.rows.length, scanRows); r++) {
+      const row = Array.from(sheet.rows[r] || [], (h: any) => (h ?? '').toString());
+      const mapping = guessAccountingMapping(row);
+      if (mapping.chave === -1) continue;
+
+      const score = Object.values(mapping).filter(idx => idx !== -1).length;
+      candidates.push({ sheetName: sheet.name, headerRow: r, score });
+    }
+  });
+
+  // Stable sort keeps sheet and row order among equal scores
+  return candidates.sort((a, b) => b.score - a.score);
+};
+
+export const buildAccountingRecords = (sheet: AccountingSheet, mapping: AccountingColumnMapping): ImportResult<AccountingRecord> => {
+  if (mapping.chave === -1) {
+    throw new Error("Coluna 'Chave' ou 'ChaveNFe' não encontrada no arquivo contábil.");
+  }
+
+  const records: AccountingRecord[] = [];
+  const skipped: SkippedRow[] = [];
+  let rowsRead = 0;
+
+  sheet.rows.forEach((row, i) => {
+    // Blank rows are layout, not data
+    if (!row || !Array.from(row).some(c => c !== undefined && c !== null && c.toString().trim())) return;
+    rowsRead++;
+    const sourceLine = sheet.headerRow + 2 + i;
+
+    const rawKey = row[mapping.chave];
+    const numero = mapping.numero !== -1 ? row[mapping.numero]?.toString() || '' : '';
+    // Without a key the note number is all the fallback matching has to go on
+    if (!rawKey && !numero.trim()) {
+      skipped.push({ fileName: sheet.fileName, row: sourceLine, reason: 'Sem chave de acesso' });
+      return;
+    }
+
+    const chaveStr = normalizeKey((rawKey ?? '').toString());
+    // Fallback: extract date from key if missing or unreadable
+    const dataEmissao = (mapping.data !== -1 ? toIsoDate(row[mapping.data]) : '') || extractDateFromKey(chaveStr);
+
+    records.push({
+      id: chaveStr || `linha-${sourceLine}`,
+      chave: chaveStr,
+      keyError: rawKey ? validateNfeKey(rawKey.toString()) || undefined : 'Sem chave de acesso',
+      numero,
+      valor: mapping.valor !== -1 ? parseCurrency(row[mapping.valor]) ?? 0 : 0,
+      dataEmissao,
+      sourceRow: row,
+      sourceFile: sheet.fileName,
+      sourceLine
+    });
+  });
+
+  // Repeated keys are kept (one booking may span several lines) but reported
+  const { duplicates } = findDuplicateKeys(records);
+
+  return {
+    records,
+    report: {
+      files: [{
+        fileName: sheet.fileName,
+        format: `Planilha "${sheet.sheetName}"`,
+        rowsRead,
+        recordsImported: records.length,
+        columns: columnsFromHeaders(mapping, sheet.headers)
+      }],
+      skipped,
+      duplicates
+    }
+  };
+};
+
+// Picks the best header candidate, or the first row of the first sheet when none has a key column
+export const bestAccountingSheet = (workbook: AccountingWorkbook, candidates: HeaderCandidate[] = findHeaderCandidates(workbook)): AccountingSheet => {
+  const best = candidates[0];
+  return best
+    ? buildAccountingSheet(workbook, best.sheetName, best.headerRow)
+    : buildAccountingSheet(workbook, workbook.sheets[0].name, 0);
+};
+
+export const parseAccountingFile = async (file: File): Promise<ImportResult<AccountingRecord>> => {
+  const sheet = bestAccountingSheet(await readAccountingWorkbook(file));
+  return buildAccountingRecords(sheet, guessAccountingMapping(sheet.headers));
+};
+
+// --- Tabular SEFAZ layouts (shared by the HTML and CSV adapters) ---
+
+export type SefazField = 'chave' | 'numero' | 'serie' | 'situacao' | 'emitente' | 'data' | 'valor' | 'cnpjDestinatario';
+
+export interface SefazTableLayout {
+  // Fields that must all be present for a row to be accepted as the header
+  requiredFields: SefazField[];
+  // Maps a normalised header (see normalizeHeader) to the field it holds
+  matchHeader: (header: string) => SefazField | null;
+  // Turns the portal's status text into a SefazSituation label (see normalizeSituacao)
+  normalizeStatus: (raw: string) => string;
+}
+
+const HEADER_SCAN_ROWS = 5;
+// Rows between progress reports while converting a table
+const PROGRESS_INTERVAL = 1000;
+
+// Returns the column index of each field when the row is a header for the layout
+export const mapHeaderRow = (cells: string[], layout: SefazTableLayout): Partial<Record<SefazField, number>> | null => {
+  const headerMap: Partial<Record<SefazField, number>> = {};
+  cells.map(c => normalizeHeader(c)).forEach((txt, idx) => {
+    const field = layout.matchHeader(txt);
+    if (!field) return;
+    // Prefer the total column when the table has several value columns (ICMS, IPI...)
+    if (field === 'valor' && headerMap.valor !== undefined && !txt.includes('total')) return;
+    headerMap[field] = idx;
+  });
+  return layout.requiredFields.every(f => headerMap[f] !== undefined) ? headerMap : null;
+};
+
+export const findHeaderRow = (rows: string[][], layout: SefazTableLayout) => {
+  for (let r = 0; r < Math.min(rows.length, HEADER_SCAN_ROWS); r++) {
+    const headerMap = mapHeaderRow(rows[r], layout);
+    if (headerMap) return { rowIndex: r, headerMap };
+  }
+  return null;
+};
+
+export interface TableParseResult {
+  records: SefazRecord[];
+  skipped: SkippedRow[];
+  rowsRead: number;
+}
+
+// rows are the data rows below the header; firstRowNumber is the 1-based position of rows[0] in the file
+export const rowsToSefazRecords = (
+  rows: string[][],
+  headerMap: Partial<Record<SefazField, number>>,
+  layout: SefazTableLayout,
+  fileName: string = '',
+  firstRowNumber: number = 1,
+  onProgress?: ProgressCallback
+): TableParseResult => {
+  const result: TableParseResult = { records: [], skipped: [], rowsRead: 0 };
+
+  rows.forEach((cells, i) => {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(i / rows.length);
+    if (!cells.some(c => c.trim())) return;
+    result.rowsRead++;
+    const sourceLine = firstRowNumber + i;
+    const skip = (reason: string) => result.skipped.push({ fileName, row: sourceLine, reason });
+
+    // Basic validation
+    if (cells.length < 3) return skip('Linha com menos de 3 colunas');
+
+    const getVal = (key: SefazField) => {
+      const idx = headerMap[key];
+      return idx !== undefined && cells[idx] ? cells[idx].trim() : "";
     };
-    reader.onerror = () => reject(new Error(`Erro ao ler o arquivo ${file.name}.`));
-    reader.readAsText(file, "ISO-8859-1"); 
+
+    // Skip header rows (some portals repeat them on every page)
+    if (normalizeHeader(getVal('chave')).includes('chave')) return skip('Cabeçalho repetido');
+
+    const chave = normalizeKey(getVal('chave'));
+    // Shorter digit runs are page noise (totals, pagination), not truncated keys
+    if (!chave) return skip('Sem chave de acesso');
+    if (chave.length <= 20) return skip(`Chave curta (${chave.length} dígitos)`);
+
+    // Fallback: extract date from key if missing or unreadable
+    const data = toIsoDate(getVal('data')) || extractDateFromKey(chave);
+
+    result.records.push({
+      id: chave,
+      chave: chave,
+      keyError: validateNfeKey(getVal('chave')) || undefined,
+      numero: getVal('numero'),
+      serie: getVal('serie'),
+      situacao: layout.normalizeStatus(getVal('situacao')),
+      emitente: getVal('emitente'),
+      data,
+      valor: headerMap.valor !== undefined ? parseCurrency(getVal('valor')) : undefined,
+      cnpjDestinatario: normalizeKey(getVal('cnpjDestinatario')) || undefined,
+      sourceRow: cells,
+      sourceFile: fileName,
+      sourceLine
+    });
   });
+
+  return result;
 };
 
-// --- HTML Parser (Multiple Files) ---
+// --- HTML Parser (SEFAZ-PE e-Fisco) ---
 
-export const parseSefazFiles = async (files: File[]): Promise<SefazRecord[]> => {
-    try {
-        // Run parsers in parallel
-        const promises = files.map(file => parseSefazHtml(file));
-        const results = await Promise.all(promises);
+export const PE_EFISCO_LAYOUT: SefazTableLayout = {
+  requiredFields: ['chave', 'situacao'],
+  matchHeader: (txt) => {
+    if (txt.includes('chave')) return 'chave';
+    if (txt.includes('situacao')) return 'situacao';
+    if (txt.includes('numero') || txt === 'nota') return 'numero';
+    if (txt.includes('serie')) return 'serie';
+    if (txt.includes('destinat') && (txt.includes('cnpj') || txt.includes('cpf'))) return 'cnpjDestinatario';
+    if (txt.includes('emitente') && !txt.includes('cnpj')) return 'emitente';
+    if (txt.includes('valor')) return 'valor';
+    if (txt.includes('data') || txt.includes('emissao')) return 'data';
+    return null;
+  },
+  normalizeStatus: normalizeSituacao
+};
 
-        // Flatten results
-        const allRecords: SefazRecord[] = [];
-        results.forEach(fileRecords => {
-            allRecords.push(...fileRecords);
-        });
+export const parseSefazHtml = async (file: File, layout: SefazTableLayout = PE_EFISCO_LAYOUT, onProgress?: ProgressCallback): Promise<SefazFileParseResult> => {
+  const htmlContent = await readFileText(file);
 
-        // Deduplicate by 'chave'
-        const uniqueMap = new Map<string, SefazRecord>();
-        allRecords.forEach(record => {
-            if (record.chave && !uniqueMap.has(record.chave)) {
-                uniqueMap.set(record.chave, record);
-            }
-        });
+  // Find the main table. We look for specific headers.
+  for (const rows of extractHtmlTables(htmlContent)) {
+    const header = findHeaderRow(rows, layout);
+    if (header) {
+      const parsed = rowsToSefazRecords(rows.slice(header.rowIndex + 1), header.headerMap, layout, file.name, header.rowIndex + 2, onProgress);
+      return { ...parsed, cancellations: [], columns: columnsFromHeaders(header.headerMap, rows[header.rowIndex]) };
+    }
+  }
+
+  throw new Error(`Tabela de notas não encontrada no arquivo ${file.name}.`);
+};
+
+// --- CSV Parser (Portal Nacional da NF-e and other states) ---
+
+export const CSV_NFE_LAYOUT: SefazTableLayout = {
+  requiredFields: ['chave'],
+  matchHeader: (txt) => {
+    if (txt.includes('chave')) return 'chave';
+    if (txt.includes('situacao') || txt === 'status' || txt.startsWith('status_')) return 'situacao';
+    if (txt.includes('destinat') && (txt.includes('cnpj') || txt.includes('cpf'))) return 'cnpjDestinatario';
+    if (txt.includes('cnpj') || txt.includes('cpf') || txt.includes('destinat')) return null;
+    if (txt.includes('serie')) return 'serie';
+    if (txt === 'nf' || txt === 'nf_e' || txt.includes('numero') || txt === 'nota') return 'numero';
+    if (txt.includes('emitente') || txt.includes('razao_social') || txt.includes('fornecedor')) return 'emitente';
+    if (txt.includes('valor')) return 'valor';
+    if (txt.includes('emissao') || txt === 'data') return 'data';
+    return null;
+  },
+  normalizeStatus: normalizeSituacao
+};
+
+// Splits CSV text honouring quoted fields; the delimiter is whichever of ; , or tab dominates the first line
+export const splitCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [';', '\t', ','].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ';');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
 
-        return Array.from(uniqueMap.values());
-    } catch (error) {
-        throw error;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(c => c.trim())) rows.push(row);
+      row = [];
+    } else {
+      field += ch;
     }
-};
\ No newline at end of file
+  }
+  row.push(field);
+  if (row.some(c => c.trim())) rows.push(row);
+
+  return rows;
+};
+
+export const parseSefazCsv = async (file: File, layout: SefazTableLayout = CSV_NFE_LAYOUT, onProgress?: ProgressCallback): Promise<SefazFileParseResult> => {
+  const rows = splitCsv(await readFileText(file));
+  const header = findHeaderRow(rows, layout);
+  if (!header) {
+    throw new Error(`Coluna 'Chave de Acesso' não encontrada no arquivo ${file.name}.`);
+  }
+  const parsed = rowsToSefazRecords(rows.slice(header.rowIndex + 1), header.headerMap, layout, file.name, header.rowIndex + 2, onProgress);
+  return { ...parsed, cancellations: [], columns: columnsFromHeaders(header.headerMap, rows[header.rowIndex]) };
+};
+
+// --- XML / ZIP Parser (NF-e procNFe and procEventoNFe) ---
+
+export const parseSefazXml = async (file: File, onProgress?: ProgressCallback): Promise<SefazFileParseResult> => {
+  const parsed = file.name.toLowerCase().endsWith('.zip')
+    ? parseNfeZip(new Uint8Array(await readFileBuffer(file)), file.name, onProgress)
+    : parseNfeXml(await readFileText(file), file.name);
+
+  return {
+    records: parsed.records,
+    cancellations: parsed.cancellations,
+    skipped: parsed.skipped,
+    rowsRead: parsed.documentsRead,
+    columns: {}
+  };
+};
+
+// --- SEFAZ Source Adapters ---
+
+// What an adapter extracts from one file
+export interface SefazFileParseResult {
+  records: SefazRecord[];
+  cancellations: NfeCancellation[];
+  skipped: SkippedRow[];
+  rowsRead: number; // table rows, or XML documents
+  columns: Record<string, string>; // field -> header it was read from
+}
+
+export interface SefazSourceAdapter {
+  id: string;
+  label: string;
+  // Extensions offered by the file picker
+  accept: string;
+  // Link to the portal the export comes from, when there is one
+  portalUrl?: string;
+  portalLabel?: string;
+  // Recognises the file from its name and the first bytes of its content (decoded as latin1)
+  detect: (fileName: string, head: string) => boolean;
+  parse: (file: File, onProgress?: ProgressCallback) => Promise<SefazFileParseResult>;
+}
+
+// Checked in order; the first adapter whose detect() accepts the file is used
+export const SEFAZ_ADAPTERS: SefazSourceAdapter[] = [
+  {
+    id: 'nfe-xml',
+    label: 'XML / ZIP de NF-e',
+    accept: '.xml,.zip',
+    detect: (name, head) => /\.(xml|zip)$/i.test(name) || head.startsWith('PK\u0003\u0004') || /<(nfeProc|procEventoNFe|NFe)\b/.test(head),
+    parse: parseSefazXml
+  },
+  {
+    id: 'pe-efisco-html',
+    label: 'SEFAZ-PE e-Fisco (HTML)',
+    accept: '.html,.htm',
+    portalUrl: 'https://efisco.sefaz.pe.gov.br/',
+    portalLabel: 'Acessar e-Fisco (SEFAZ-PE)',
+    detect: (name, head) => /\.html?$/i.test(name) || /<(html|table)\b/i.test(head),
+    parse: (file, onProgress) => parseSefazHtml(file, PE_EFISCO_LAYOUT, onProgress)
+  },
+  {
+    id: 'csv-nfe',
+    label: 'CSV (Portal NF-e / outras UFs)',
+    accept: '.csv,.txt',
+    detect: (name, head) => /\.(csv|txt)$/i.test(name) || (!head.trimStart().startsWith('<') && /chave/i.test(head.split(/\r?\n/, 1)[0])),
+    parse: (file, onProgress) => parseSefazCsv(file, CSV_NFE_LAYOUT, onProgress)
+  }
+];
+
+export const SEFAZ_ACCEPT = Array.from(new Set(SEFAZ_ADAPTERS.flatMap(a => a.accept.split(',')))).join(',');
+
+export const detectSefazAdapter = async (file: File): Promise<SefazSourceAdapter> => {
+  const head = await readFileText(file.slice(0, 4096), "ISO-8859-1");
+  const adapter = SEFAZ_ADAPTERS.find(a => a.detect(file.name, head));
+  if (!adapter) {
+    throw new Error(`Formato não reconhecido no arquivo ${file.name}.`);
+  }
+  return adapter;
+};
+
+// --- SEFAZ Parser (Multiple Files) ---
+
+// Parses one file with the given adapter, or the one detected from its content
+export const parseSefazFile = async (
+    file: File,
+    adapter?: SefazSourceAdapter,
+    onProgress?: ProgressCallback
+): Promise<SefazFileImport> => {
+    const used = adapter || await detectSefazAdapter(file);
+    const parsed = await used.parse(file, onProgress);
+    onProgress?.(1);
+    return { fileName: file.name, format: used.label, ...parsed };
+};
+
+// Combines parsed files into one record set: duplicate keys keep the first file's record,
+// then cancellation events override the situation of their key
+export const mergeSefazFiles = (files: SefazFileImport[]): ImportResult<SefazRecord> => {
+    const allRecords: SefazRecord[] = [];
+    const allCancellations: NfeCancellation[] = [];
+    const report: ImportReport = { files: [], skipped: [], duplicates: [] };
+    files.forEach(file => {
+        allRecords.push(...file.records);
+        allCancellations.push(...file.cancellations);
+        report.skipped.push(...file.skipped);
+        report.files.push({
+            fileName: file.fileName,
+            format: file.format,
+            rowsRead: file.rowsRead,
+            recordsImported: file.records.length,
+            columns: file.columns
+        });
+    });
+
+    // Deduplicate by 'chave'
+    const { unique, duplicates } = findDuplicateKeys(allRecords);
+    report.duplicates = duplicates;
+    const uniqueMap = new Map<string, SefazRecord>(unique.map(record => [record.chave, record]));
+
+    allCancellations.forEach(cancellation => {
+        const existing = uniqueMap.get(cancellation.chave);
+        if (existing) {
+            uniqueMap.set(cancellation.chave, { ...existing, situacao: cancellation.situacao });
+        } else {
+            uniqueMap.set(cancellation.chave, recordFromCancellation(cancellation));
+        }
+    });
+
+    return { records: Array.from(uniqueMap.values()), report };
+};
+
+// Parses each file on its own; adapterId forces a specific adapter for every file, 'auto' detects one per file
+export const parseSefazFileList = (
+    files: File[],
+    adapterId: string = 'auto',
+    onProgress?: (fileName: string, fraction: number) => void
+): Promise<SefazFileImport[]> => {
+    const forced = SEFAZ_ADAPTERS.find(a => a.id === adapterId);
+    // Run parsers in parallel
+    return Promise.all(files.map(file => parseSefazFile(file, forced, onProgress && (fraction => onProgress(file.name, fraction)))));
+};
+
+export const parseSefazFiles = async (
+    files: File[],
+    adapterId: string = 'auto',
+    onProgress?: (fileName: string, fraction: number) => void
+): Promise<ImportResult<SefazRecord>> => mergeSefazFiles(await parseSefazFileList(files, adapterId, onProgress));
+
+// --- File sniffing ---
+
+// Which side of the reconciliation a dropped file belongs to
+export type FileSide = 'accounting' | 'sefaz';
+
+// Compound document header of legacy .xls files
+const OLE2_SIGNATURE = 'ÐÏ\u0011à¡±\u001aá';
+const ZIP_SIGNATURE = 'PK\u0003\u0004';
+// Only read from the end of the file: the zip central directory lists every entry there
+const SNIFF_TAIL_BYTES = 65536;
+
+// Decides from content alone (first and last bytes, decoded as latin1), never from the extension.
+// Spreadsheets are the accounting export; NF-e XML/ZIP, HTML pages and CSVs with a situation column come from SEFAZ.
+export const classifyFileContent = (head: string, tail: string = ''): FileSide | null => {
+  if (head.startsWith(OLE2_SIGNATURE)) return 'accounting';
+  if (head.startsWith(ZIP_SIGNATURE)) {
+    // .xlsx is a zip too; its workbook part tells it apart from a zip of XMLs
+    return /xl\/workbook\.xml/.test(head) || /xl\/workbook\.xml/.test(tail) ? 'accounting' : 'sefaz';
+  }
+
+  const text = head.replace(/^(﻿|ï»¿)/, '').trimStart();
+  if (text.startsWith('<')) {
+    if (/urn:schemas-microsoft-com:office:spreadsheet|<Workbook\b/.test(text)) return 'accounting'; // SpreadsheetML
+    if (/<(nfeProc|procEventoNFe|NFe|html|table)\b/i.test(text)) return 'sefaz';
+    return null;
+  }
+
+  const header = splitCsv(text.split(/\r?\n/, 1)[0])[0] || [];
+  if (header.length < 2) return null;
+  const sefazHeader = mapHeaderRow(header, CSV_NFE_LAYOUT);
+  if (sefazHeader && sefazHeader.situacao !== undefined) return 'sefaz';
+  const accounting = guessAccountingMapping(header);
+  if (accounting.chave !== -1 || accounting.valor !== -1 || accounting.numero !== -1) return 'accounting';
+  return null;
+};
+
+export const sniffFileSide = async (file: File): Promise<FileSide | null> => {
+  const start = file.slice(0, 4096);
+  const head = await readFileText(start, 'ISO-8859-1');
+  if (!head.startsWith(OLE2_SIGNATURE) && !head.startsWith(ZIP_SIGNATURE)) {
+    // Text: decode as the parsers will, so accented headers compare as expected
+    return classifyFileContent(await readFileText(start));
+  }
+  const tail = file.size > 4096 ? await readFileText(file.slice(-SNIFF_TAIL_BYTES), 'ISO-8859-1') : '';
+  return classifyFileContent(head, tail);
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { describePeriod, groupResults } from './pdfService';
+import { reconcile } from './reconciler';
+import { AccountingRecord, SefazRecord, MatchStatus } from '../types';
+
+const KEY_A = '26240112345678000190550010000001011000001012';
+const KEY_B = '26240112345678000190550010000001021000001028';
+const KEY_C = '26240212345678000190550010000001031000001037';
+
+const accounting: AccountingRecord[] = [
+  { id: KEY_A, chave: KEY_A, numero: '101', dataEmissao: '10/01/2024', valor: 100, sourceRow: [] }
+];
+const sefaz: SefazRecord[] = [
+  { id: KEY_A, chave: KEY_A, numero: '101', serie: '1', situacao: 'Autorizada', emitente: 'FORNECEDOR LTDA', data: '10/01/2024', valor: 100, sourceRow: [] },
+  { id: KEY_B, chave: KEY_B, numero: '102', serie: '1', situacao: 'Autorizada', emitente: 'FORNECEDOR LTDA', data: '20/01/2024', valor: 50.1, sourceRow: [] },
+  { id: KEY_C, chave: KEY_C, numero: '103', serie: '1', situacao: 'Autorizada', emitente: 'FORNECEDOR LTDA', data: '02/2024', valor: 25.2, sourceRow: [] }
+];
+
+describe('groupResults', () => {
+  const { results } = reconcile(accounting, sefaz);
+
+  it('groups by status in status order with subtotals', () => {
+    const groups = groupResults([...results].reverse(), 'status');
+
+    expect(groups.map(g => g.label)).toEqual([MatchStatus.MATCHED, MatchStatus.MISSING_IN_ACCOUNTING]);
+    expect(groups[0].total).toBe(100);
+    expect(groups[1].total).toBe(75.3);
+  });
+
+  it('groups by month chronologically, undated rows last', () => {
+    const undated = { ...results[0], id: 'x', data: '' };
+    const groups = groupResults([undated, ...[...results].reverse()], 'month');
+
+    expect(groups.map(g => g.label)).toEqual(['01/2024', '02/2024', 'Sem data']);
+    expect(groups[0].rows.map(r => r.chave)).toEqual([KEY_B, KEY_A]);
+    expect(groups[0].total).toBe(150.1);
+  });
+
+  it('keeps a single unlabelled group without grouping', () => {
+    const groups = groupResults(results, 'none');
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].rows).toBe(results);
+  });
+});
+
+describe('describePeriod', () => {
+  const { results } = reconcile(accounting, sefaz);
+
+  it('spans the first and last months', () => {
+    expect(describePeriod(results)).toBe('01/2024 a 02/2024');
+    expect(describePeriod(results.slice(0, 1))).toBe('01/2024');
+    expect(describePeriod([])).toBe('Não identificado');
+  });
+});
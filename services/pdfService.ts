@@ -1,48 +1,475 @@
 import { jsPDF } from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import { ComparisonResult, MatchStatus } from '../types';
+import { autoTable, CellInput, RowInput } from 'jspdf-autotable';
+import { ComparisonResult, MatchStatus, RunChange, RunDiffEntry } from '../types';
+import { formatCurrency, formatCnpj, formatDate, competenceOf } from '../utils';
+import { computeStats, STATS_ROWS } from './reconciler';
+import { countRunChanges } from './runDiff';
+import { countAnnotations, describeAnnotation } from './annotations';
+import { statusDistribution, monthlyTimeline, pendingByIssuer, topIssuers } from './dashboardCharts';
 
-export const exportToPdf = (data: ComparisonResult[], title: string) => {
-  const doc = new jsPDF();
+// autoTable records where the last table ended on the document
+type AutoTableDoc = jsPDF & { lastAutoTable: { finalY: number } };
 
-  doc.setFontSize(18);
+export type PdfGrouping = 'status' | 'month' | 'none';
+
+export interface PdfReportOptions {
+  title: string;
+  companyName?: string;
+  companyCnpj?: string;
+  // Period covered; derived from the rows' dates when omitted
+  period?: string;
+  // Active filters, as produced by describeFilters
+  filters?: string[];
+  groupBy?: PdfGrouping;
+  // Page with the dashboard charts after the summary
+  charts?: boolean;
+}
+
+export interface RunDiffReportOptions {
+  companyName?: string;
+  companyCnpj?: string;
+  previousRun: string;
+  currentRun: string;
+}
+
+export interface ResultGroup {
+  label: string;
+  rows: ComparisonResult[];
+  total: number;
+}
+
+export type RGB = [number, number, number];
+
+const HEADER_COLOR: RGB = [31, 79, 127]; // #1f4f7f
+const MARGIN = 14;
+
+export const STATUS_COLORS: Record<string, RGB> = {
+  [MatchStatus.MATCHED]: [46, 125, 50], // Green
+  [MatchStatus.MATCHED_BY_NUMBER]: [15, 118, 110], // Teal
+  [MatchStatus.MISSING_IN_ACCOUNTING]: [198, 40, 40], // Red
+  [MatchStatus.MISSING_IN_SEFAZ]: [161, 98, 7], // Amber
+  [MatchStatus.VALUE_DIVERGENCE]: [126, 34, 206], // Purple
+  [MatchStatus.CANCELLED]: [239, 108, 0], // Orange
+  [MatchStatus.CANCELLED_BUT_BOOKED]: [190, 18, 60], // Rose
+  [MatchStatus.IGNORED_BY_RULE]: [100, 116, 139], // Slate
+  [MatchStatus.OUT_OF_PERIOD]: [3, 105, 161], // Sky
+  [MatchStatus.DENIED]: [127, 29, 29], // Dark red
+  [MatchStatus.DENIED_BUT_BOOKED]: [190, 18, 60], // Rose
+  [MatchStatus.VOIDED]: [71, 85, 105], // Dark slate
+  [MatchStatus.VOIDED_BUT_BOOKED]: [190, 18, 60], // Rose
+  [MatchStatus.PENDING_CANCELLATION]: [180, 83, 9], // Dark amber
+  [MatchStatus.IN_CONTINGENCY]: [67, 56, 202] // Indigo
+};
+
+const CHANGE_COLORS: Record<RunChange, RGB> = {
+  [RunChange.NEWLY_PENDING]: [198, 40, 40],
+  [RunChange.STILL_PENDING]: [161, 98, 7],
+  [RunChange.RESOLVED]: [46, 125, 50],
+  [RunChange.NEWLY_CANCELLED]: [239, 108, 0],
+  [RunChange.NOT_IN_CURRENT]: [100, 116, 139]
+};
+
+// Documents without legal effect that were booked anyway
+const BOOKED_VOID_STATUSES: string[] = [MatchStatus.CANCELLED_BUT_BOOKED, MatchStatus.DENIED_BUT_BOOKED, MatchStatus.VOIDED_BUT_BOOKED];
+
+const DETAIL_HEAD = ['Número', 'Série', 'Data', 'Chave de Acesso', 'Emitente', 'Valor', 'Valor SEFAZ', 'Valor Contábil', 'Diferença', 'Situação SEFAZ', 'Status', 'Justificativa'];
+const STATUS_COLUMN = DETAIL_HEAD.indexOf('Status');
+
+const numericValue = (r: { valor: number | string }) => {
+  const value = Number(r.valor);
+  return Number.isFinite(value) ? value : 0;
+};
+
+// Summed in cents to avoid floating point noise
+const sumValues = (rows: { valor: number | string }[]) => Math.round(rows.reduce((sum, r) => sum + numericValue(r) * 100, 0)) / 100;
+
+// MM/YYYY of a date, '' when unknown
+const monthOf = (date: string): string => formatDate(competenceOf(date));
+
+// Chronological sort key for MM/YYYY; unknown months go last
+const monthOrder = (month: string) => month ? month.split('/').reverse().join('') : '999999';
+
+export const groupResults = (data: ComparisonResult[], groupBy: PdfGrouping): ResultGroup[] => {
+  if (groupBy === 'none') return [{ label: '', rows: data, total: sumValues(data) }];
+
+  const groups = new Map<string, ComparisonResult[]>();
+  data.forEach(r => {
+    const key = groupBy === 'status' ? r.status : monthOf(r.data);
+    const rows = groups.get(key);
+    if (rows) rows.push(r);
+    else groups.set(key, [r]);
+  });
+
+  const keys = Array.from(groups.keys());
+  if (groupBy === 'status') {
+    const order = Object.values(MatchStatus) as string[];
+    keys.sort((a, b) => order.indexOf(a) - order.indexOf(b));
+  } else {
+    keys.sort((a, b) => monthOrder(a).localeCompare(monthOrder(b)));
+  }
+
+  return keys.map(key => ({
+    label: groupBy === 'month' ? (key || 'Sem data') : key,
+    rows: groups.get(key)!,
+    total: sumValues(groups.get(key)!)
+  }));
+};
+
+// First and last months of the rows, for the header when no period was given
+export const describePeriod = (data: ComparisonResult[]): string => {
+  const months = Array.from(new Set(data.map(r => monthOf(r.data)).filter(Boolean)))
+    .sort((a, b) => monthOrder(a).localeCompare(monthOrder(b)));
+  if (months.length === 0) return 'Não identificado';
+  return months.length === 1 ? months[0] : `${months[0]} a ${months[months.length - 1]}`;
+};
+
+// --- Charts (same data as the dashboard, see dashboardCharts) ---
+
+const CHART_HEIGHT = 78;
+const BOOKED_COLOR = STATUS_COLORS[MatchStatus.MATCHED];
+const PENDING_COLOR = STATUS_COLORS[MatchStatus.MISSING_IN_ACCOUNTING];
+export const OTHER_COLOR: RGB = [148, 163, 184];
+
+interface ChartBar {
+  label: string;
+  value: number;
+  text: string; // shown after the bar
+  color: RGB;
+}
+
+const drawChartTitle = (doc: jsPDF, title: string, x: number, y: number) => {
+  doc.setFontSize(10);
   doc.setTextColor(40);
-  doc.text(title, 14, 22);
-  
-  doc.setFontSize(11);
-  doc.text(`Gerado em: ${new Date().toLocaleString()}`, 14, 30);
-
-  const tableData = data.map(row => [
-    row.numero,
-    row.serie,
-    row.chave,
-    row.data,
-    row.situacaoSefaz,
-    row.status
+  doc.text(title, x, y);
+};
+
+// Horizontal bars, one per line, scaled to the largest value
+const drawBarList = (doc: jsPDF, title: string, bars: ChartBar[], x: number, y: number, width: number) => {
+  drawChartTitle(doc, title, x, y);
+  doc.setFontSize(7);
+  if (bars.length === 0) {
+    doc.setTextColor(120);
+    doc.text('Nenhuma nota.', x, y + 8);
+    return;
+  }
+  const labelWidth = 48;
+  const textWidth = 26;
+  const barWidth = width - labelWidth - textWidth;
+  const max = Math.max(...bars.map(b => b.value)) || 1;
+  const lineHeight = Math.min(7, (CHART_HEIGHT - 8) / bars.length);
+  bars.forEach((bar, i) => {
+    const lineY = y + 6 + i * lineHeight;
+    doc.setTextColor(60);
+    doc.text((doc.splitTextToSize(bar.label, labelWidth - 2) as string[])[0], x, lineY + lineHeight * 0.6);
+    doc.setFillColor(...bar.color);
+    doc.rect(x + labelWidth, lineY + 1, Math.max(0.5, barWidth * bar.value / max), lineHeight - 2, 'F');
+    doc.text(bar.text, x + width, lineY + lineHeight * 0.6, { align: 'right' });
+  });
+};
+
+// Booked and pending notes side by side for each month
+const drawMonthlyChart = (doc: jsPDF, data: ComparisonResult[], x: number, y: number, width: number) => {
+  drawChartTitle(doc, 'Lançadas x Não lançadas por mês', x, y);
+  const months = monthlyTimeline(data);
+  doc.setFontSize(7);
+  if (months.length === 0) {
+    doc.setTextColor(120);
+    doc.text('Nenhuma nota.', x, y + 8);
+    return;
+  }
+  const plotTop = y + 10;
+  const plotHeight = CHART_HEIGHT - 22;
+  const baseY = plotTop + plotHeight;
+  const max = Math.max(...months.map(m => Math.max(m.booked, m.pending))) || 1;
+  const slot = width / months.length;
+  const barWidth = Math.min(8, slot / 3);
+
+  doc.setDrawColor(180);
+  doc.line(x, baseY, x + width, baseY);
+  months.forEach((m, i) => {
+    const center = x + slot * i + slot / 2;
+    ([[m.booked, BOOKED_COLOR, center - barWidth], [m.pending, PENDING_COLOR, center]] as [number, RGB, number][])
+      .forEach(([count, color, barX]) => {
+        const height = plotHeight * count / max;
+        doc.setFillColor(...color);
+        if (count > 0) doc.rect(barX, baseY - height, barWidth, height, 'F');
+        doc.setTextColor(60);
+        doc.text(String(count), barX + barWidth / 2, baseY - height - 1, { align: 'center' });
+      });
+    // MM/YY once full labels would run into each other
+    const label = slot < 12 ? `${m.month.substring(5)}/${m.month.substring(2, 4)}` : formatDate(m.month);
+    doc.text(label, center, baseY + 4, { align: 'center' });
+  });
+
+  // Legend
+  ([[BOOKED_COLOR, 'Lançadas'], [PENDING_COLOR, 'Não lançadas']] as [RGB, string][]).forEach(([color, label], i) => {
+    const legendX = x + i * 32;
+    doc.setFillColor(...color);
+    doc.rect(legendX, y + 3, 3, 3, 'F');
+    doc.setTextColor(60);
+    doc.text(label, legendX + 4, y + 5.5);
+  });
+};
+
+const issuerLabel = (issuer: { cnpj: string; emitente: string }) => issuer.emitente || formatCnpj(issuer.cnpj) || 'Sem chave válida';
+
+// Status distribution, monthly timeline and the issuers with most unbooked notes, on a page of their own
+const drawChartsPage = (doc: jsPDF, data: ComparisonResult[]) => {
+  doc.addPage();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const half = (pageWidth - 2 * MARGIN - 12) / 2;
+  const right = MARGIN + half + 12;
+  const top = 20;
+  const bottom = top + CHART_HEIGHT + 12;
+
+  drawBarList(doc, 'Notas por status', statusDistribution(data).map(slice => ({
+    label: slice.label,
+    value: slice.count,
+    text: String(slice.count),
+    color: (slice.status && STATUS_COLORS[slice.status]) || OTHER_COLOR
+  })), MARGIN, top, half);
+  drawMonthlyChart(doc, data, right, top, half);
+
+  const issuers = pendingByIssuer(data);
+  drawBarList(doc, 'Emitentes com mais notas não lançadas', topIssuers(issuers, 'count').map(issuer => ({
+    label: issuerLabel(issuer),
+    value: issuer.count,
+    text: `${issuer.count} notas`,
+    color: PENDING_COLOR
+  })), MARGIN, bottom, half);
+  drawBarList(doc, 'Emitentes por valor não lançado (R$)', topIssuers(issuers, 'value').map(issuer => ({
+    label: issuerLabel(issuer),
+    value: issuer.value,
+    text: formatCurrency(issuer.value),
+    color: PENDING_COLOR
+  })), right, bottom, half);
+};
+
+const companyLine = (options: { companyName?: string; companyCnpj?: string }) =>
+  [options.companyName, options.companyCnpj && `CNPJ ${formatCnpj(options.companyCnpj)}`].filter(Boolean).join(' - ');
+
+// Title plus wrapped info lines; returns where the content starts
+const drawHeader = (doc: jsPDF, title: string, lines: string[]): number => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFontSize(16);
+  doc.setTextColor(40);
+  doc.text(title, MARGIN, 18);
+
+  doc.setFontSize(10);
+  const wrapped = [...lines, `Gerado em: ${new Date().toLocaleString('pt-BR')}`]
+    .flatMap(line => doc.splitTextToSize(line, pageWidth - 2 * MARGIN) as string[]);
+  doc.text(wrapped, MARGIN, 26);
+  return 26 + wrapped.length * 5;
+};
+
+// "Página X de Y" and the company on every page, once all pages exist
+const drawPageFooters = (doc: jsPDF, company: string) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(`Página ${page} de ${pageCount}`, pageWidth - MARGIN, pageHeight - 8, { align: 'right' });
+    if (company) doc.text(company, MARGIN, pageHeight - 8);
+  }
+};
+
+const detailRow = (row: ComparisonResult): CellInput[] => [
+  row.numero,
+  row.serie,
+  formatDate(row.data),
+  row.chave,
+  row.emitente,
+  formatCurrency(row.valor),
+  row.valorSefaz !== undefined ? formatCurrency(row.valorSefaz) : '-',
+  row.valorContabil !== undefined ? formatCurrency(row.valorContabil) : '-',
+  row.diferenca !== undefined ? formatCurrency(row.diferenca) : '-',
+  row.situacaoSefaz,
+  row.status === MatchStatus.MATCHED_BY_NUMBER ? `${row.status} (${row.matchConfidence}%)`
+    : row.ignoredBy ? `${row.status} (${row.ignoredBy})` : row.status,
+  describeAnnotation(row.annotation)
+];
+
+export const buildPdfReport = (data: ComparisonResult[], options: PdfReportOptions): jsPDF => {
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  // --- Header ---
+  const company = companyLine(options);
+  let y = drawHeader(doc, options.title, [
+    company || 'Empresa não informada',
+    `Período: ${options.period || describePeriod(data)}`,
+    `Filtros: ${options.filters && options.filters.length > 0 ? options.filters.join('; ') : 'nenhum'}`
+  ]);
+
+  // --- Summary by status ---
+  const stats = computeStats(data);
+  const knownStatuses = STATS_ROWS.map(s => s.status).filter(Boolean);
+  // The total closes the table instead; optional rows only show when some note has that status
+  const summaryBody: RowInput[] = STATS_ROWS
+    .filter(({ key, optional }) => key !== 'total' && (!optional || stats[key] > 0))
+    .map(({ key, status, label }) => [
+      label,
+      String(stats[key]),
+      formatCurrency(sumValues(data.filter(r => status ? r.status === status : !knownStatuses.includes(r.status))))
+    ]);
+  summaryBody.push([
+    { content: 'Total', styles: { fontStyle: 'bold' } },
+    { content: String(stats.total), styles: { fontStyle: 'bold' } },
+    { content: formatCurrency(sumValues(data)), styles: { fontStyle: 'bold' } }
   ]);
+  const annotations = countAnnotations(data);
+  if (annotations.annotated > 0) {
+    summaryBody.push(
+      ['Anotações: resolvidas', String(annotations.resolved), ''],
+      ['Anotações: ignoradas', String(annotations.ignored), ''],
+      ['Não lançadas sem solução', String(annotations.openPending), '']
+    );
+  }
 
   autoTable(doc, {
-    head: [['Número', 'Série', 'Chave de Acesso', 'Data', 'Situação SEFAZ', 'Status Confronto']],
-    body: tableData,
-    startY: 40,
+    head: [['Resumo', 'Notas', 'Total (R$)']],
+    body: summaryBody,
+    startY: y,
+    tableWidth: 120,
     styles: { fontSize: 8 },
-    headStyles: { fillColor: [31, 79, 127] }, // #1f4f7f
+    headStyles: { fillColor: HEADER_COLOR },
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } }
+  });
+  y = (doc as AutoTableDoc).lastAutoTable.finalY + 8;
+
+  if (options.charts) {
+    drawChartsPage(doc, data);
+    doc.addPage();
+    y = 20;
+  }
+
+  // --- Detail, grouped with subtotals ---
+  const groupBy = options.groupBy || 'none';
+  const body: RowInput[] = [];
+  groupResults(data, groupBy).forEach(group => {
+    if (groupBy !== 'none') {
+      body.push([{ content: group.label, colSpan: DETAIL_HEAD.length, styles: { fontStyle: 'bold', fillColor: [226, 232, 240] } }]);
+    }
+    group.rows.forEach(row => body.push(detailRow(row)));
+    if (groupBy !== 'none') {
+      body.push([
+        { content: `Subtotal ${group.label} (${group.rows.length} notas)`, colSpan: 5, styles: { fontStyle: 'bold', halign: 'right' } },
+        { content: formatCurrency(group.total), styles: { fontStyle: 'bold' } },
+        { content: '', colSpan: DETAIL_HEAD.length - 6 }
+      ]);
+    }
+  });
+
+  autoTable(doc, {
+    head: [DETAIL_HEAD],
+    body,
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN, bottom: 16 },
+    styles: { fontSize: 7 },
+    headStyles: { fillColor: HEADER_COLOR },
+    columnStyles: { 3: { cellWidth: 38 }, 4: { cellWidth: 34 }, 11: { cellWidth: 40 } },
     alternateRowStyles: { fillColor: [245, 245, 245] },
-    
+
     // Colorize status column
     didParseCell: (data) => {
-        if (data.section === 'body' && data.column.index === 5) {
-            const status = data.cell.raw as string;
-            if (status === MatchStatus.MATCHED) {
-                data.cell.styles.textColor = [46, 125, 50]; // Green
-            } else if (status === MatchStatus.MISSING_IN_ACCOUNTING) {
-                data.cell.styles.textColor = [198, 40, 40]; // Red
-            } else if (status === MatchStatus.CANCELLED) {
-                data.cell.styles.textColor = [239, 108, 0]; // Orange
-            }
-        }
+      if (data.section !== 'body' || data.column.index !== STATUS_COLUMN || typeof data.cell.raw !== 'string') return;
+      const status = data.cell.raw;
+      // Longest prefix, so "Cancelada mas lançada" doesn't take the colour of "Cancelada"
+      const colored = Object.keys(STATUS_COLORS).filter(s => status.startsWith(s)).sort((a, b) => b.length - a.length)[0];
+      if (colored) data.cell.styles.textColor = STATUS_COLORS[colored];
+      if (BOOKED_VOID_STATUSES.some(s => status.startsWith(s))) data.cell.styles.fontStyle = 'bold';
     }
   });
+  y = (doc as AutoTableDoc).lastAutoTable.finalY + 10;
+
+  // --- Observations and signatures ---
+  const closingHeight = 62;
+  if (y + closingHeight > pageHeight - 16) {
+    doc.addPage();
+    y = 20;
+  }
+  doc.setFontSize(10);
+  doc.setTextColor(40);
+  doc.text('Observações:', MARGIN, y);
+  doc.setDrawColor(180);
+  doc.rect(MARGIN, y + 3, pageWidth - 2 * MARGIN, 28);
+
+  const signatureY = y + 52;
+  const signatureWidth = 100;
+  const signatures: [string, number][] = [
+    ['Responsável pela conferência', MARGIN],
+    ['Cliente', pageWidth - MARGIN - signatureWidth]
+  ];
+  doc.setFontSize(8);
+  signatures.forEach(([label, x]) => {
+    doc.line(x, signatureY, x + signatureWidth, signatureY);
+    doc.text(label, x, signatureY + 5);
+    doc.text('Data: ___/___/______', x + signatureWidth, signatureY + 5, { align: 'right' });
+  });
+
+  drawPageFooters(doc, company);
+  return doc;
+};
+
+export const exportToPdf = (data: ComparisonResult[], options: PdfReportOptions) => {
+  buildPdfReport(data, options).save(`confronto_fiscal_${new Date().getTime()}.pdf`);
+};
+
+// What changed since the previous run, for the client: counts, then the notes grouped by change
+export const buildRunDiffReport = (entries: RunDiffEntry[], options: RunDiffReportOptions): jsPDF => {
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const company = companyLine(options);
+  let y = drawHeader(doc, 'Comparação com a Execução Anterior', [
+    company || 'Empresa não informada',
+    `Execução anterior: ${options.previousRun}`,
+    `Execução atual: ${options.currentRun}`
+  ]);
+
+  const counts = countRunChanges(entries);
+  const changes = Object.values(RunChange);
+  autoTable(doc, {
+    head: [['Mudança', 'Notas', 'Total (R$)']],
+    body: changes.map(change => [
+      change,
+      String(counts[change]),
+      formatCurrency(sumValues(entries.filter(e => e.change === change)))
+    ]),
+    startY: y,
+    tableWidth: 120,
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: HEADER_COLOR },
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } }
+  });
+  y = (doc as AutoTableDoc).lastAutoTable.finalY + 8;
+
+  const head = ['Número', 'Data', 'Chave de Acesso', 'Emitente', 'Valor', 'Status anterior', 'Status atual'];
+  const body: RowInput[] = [];
+  changes.forEach(change => {
+    const rows = entries.filter(e => e.change === change);
+    if (rows.length === 0) return;
+    body.push([{ content: `${change} (${rows.length})`, colSpan: head.length, styles: { fontStyle: 'bold', fillColor: [226, 232, 240], textColor: CHANGE_COLORS[change] } }]);
+    rows.forEach(e => body.push([e.numero, formatDate(e.data), e.chave, e.emitente, formatCurrency(e.valor), e.previousStatus || '-', e.currentStatus || '-']));
+  });
+
+  autoTable(doc, {
+    head: [head],
+    body,
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN, bottom: 16 },
+    styles: { fontSize: 7 },
+    headStyles: { fillColor: HEADER_COLOR },
+    columnStyles: { 2: { cellWidth: 60 }, 3: { cellWidth: 50 } },
+    alternateRowStyles: { fillColor: [245, 245, 245] }
+  });
+
+  drawPageFooters(doc, company);
+  return doc;
+};
 
-  doc.save(`confronto_fiscal_${new Date().getTime()}.pdf`);
-};
\ No newline at end of file
+export const exportRunDiffToPdf = (entries: RunDiffEntry[], options: RunDiffReportOptions) => {
+  buildRunDiffReport(entries, options).save(`comparacao_execucoes_${new Date().getTime()}.pdf`);
+};
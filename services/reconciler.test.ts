@@ -0,0 +1,405 @@
+import { describe, it, expect } from 'vitest';
+import { reconcile, computeStats, filterResults, sortResults, isValueDivergent, scoreFallbackMatch, describeFilters, describePeriodRange, isOutOfPeriod, companyOf, statsByCompany, sharedCompanies, EMPTY_FILTERS } from './reconciler';
+import { AccountingRecord, SefazRecord, MatchStatus } from '../types';
+
+const KEY_A = '26240112345678000190550010000001011000001012';
+const KEY_B = '26240112345678000190550010000001021000001028';
+const KEY_C = '26240212345678000190550010000001031000001037';
+// Issued by another company (98.765.432/0001-55)
+const KEY_D = '26240198765432000155550010000002011000002013';
+
+const acc = (chave: string, overrides: Partial<AccountingRecord> = {}): AccountingRecord => ({
+  id: chave,
+  chave,
+  numero: chave.substring(25, 34).replace(/^0+/, ''),
+  dataEmissao: '',
+  valor: 100,
+  sourceRow: [],
+  ...overrides
+});
+
+const sefaz = (chave: string, overrides: Partial<SefazRecord> = {}): SefazRecord => ({
+  id: chave,
+  chave,
+  numero: chave.substring(25, 34).replace(/^0+/, ''),
+  serie: '1',
+  situacao: 'Autorizada',
+  emitente: 'FORNECEDOR LTDA',
+  data: '10/01/2024',
+  sourceRow: [],
+  ...overrides
+});
+
+describe('reconcile', () => {
+  it('matches keys present on both sides', () => {
+    const { results, stats } = reconcile([acc(KEY_A, { valor: 250.5 })], [sefaz(KEY_A)]);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].status).toBe(MatchStatus.MATCHED);
+    expect(results[0].valor).toBe(250.5);
+    expect(results[0].accountingRecord?.chave).toBe(KEY_A);
+    expect(stats.matched).toBe(1);
+  });
+
+  it('flags SEFAZ notes that were not booked', () => {
+    const { results, stats } = reconcile([], [sefaz(KEY_A)]);
+
+    expect(results[0].status).toBe(MatchStatus.MISSING_IN_ACCOUNTING);
+    expect(results[0].valor).toBe(0);
+    expect(stats.missingInAccounting).toBe(1);
+  });
+
+  it('emits accounting entries that have no SEFAZ counterpart', () => {
+    const { results, stats } = reconcile([acc(KEY_A), acc(KEY_B, { dataEmissao: '05/01/2024' })], [sefaz(KEY_A)]);
+
+    const missing = results.find(r => r.chave === KEY_B);
+    expect(missing?.status).toBe(MatchStatus.MISSING_IN_SEFAZ);
+    expect(missing?.sefazRecord).toBeUndefined();
+    expect(missing?.data).toBe('05/01/2024');
+    expect(stats.missingInSefaz).toBe(1);
+  });
+
+  it('can skip the accounting-side pass', () => {
+    const { results } = reconcile([acc(KEY_B)], [sefaz(KEY_A)], { includeMissingInSefaz: false });
+
+    expect(results.map(r => r.status)).toEqual([MatchStatus.MISSING_IN_ACCOUNTING]);
+  });
+
+  it('marks cancelled notes that were left out as cancelled', () => {
+    const { results, stats } = reconcile([], [sefaz(KEY_A, { situacao: 'Cancelada' })]);
+
+    expect(results[0].status).toBe(MatchStatus.CANCELLED);
+    expect(stats.cancelled).toBe(1);
+    expect(stats.cancelledButBooked).toBe(0);
+  });
+
+  it('flags cancelled notes that are still booked', () => {
+    const { results, stats } = reconcile([acc(KEY_A)], [sefaz(KEY_A, { situacao: 'Cancelada' })]);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].status).toBe(MatchStatus.CANCELLED_BUT_BOOKED);
+    expect(results[0].accountingRecord).toBeDefined();
+    expect(stats.cancelledButBooked).toBe(1);
+    expect(stats.cancelled).toBe(0);
+  });
+
+  it('gives denied and voided notes their own status, flagging the booked ones', () => {
+    const { results, stats } = reconcile(
+      [acc(KEY_B), acc(KEY_D)],
+      [sefaz(KEY_A, { situacao: 'Uso Denegado' }), sefaz(KEY_B, { situacao: 'Denegada' }), sefaz(KEY_C, { situacao: 'Inutilizada' }), sefaz(KEY_D, { situacao: 'Numeração inutilizada' })]
+    );
+
+    expect(results.map(r => r.status)).toEqual([MatchStatus.DENIED, MatchStatus.DENIED_BUT_BOOKED, MatchStatus.VOIDED, MatchStatus.VOIDED_BUT_BOOKED]);
+    expect(stats).toMatchObject({ denied: 1, deniedButBooked: 1, voided: 1, voidedButBooked: 1, missingInAccounting: 0, matched: 0 });
+  });
+
+  it('sets apart notes still waiting on SEFAZ, booked or not', () => {
+    const { results, stats } = reconcile(
+      [acc(KEY_A)],
+      [sefaz(KEY_A, { situacao: 'Cancelamento extemporâneo' }), sefaz(KEY_B, { situacao: 'Emitida em contingência EPEC' })]
+    );
+
+    expect(results.map(r => r.status)).toEqual([MatchStatus.PENDING_CANCELLATION, MatchStatus.IN_CONTINGENCY]);
+    expect(stats.pendingCancellation).toBe(1);
+    expect(stats.inContingency).toBe(1);
+  });
+
+  it('reconciles unknown situations as authorised', () => {
+    const { results } = reconcile([acc(KEY_A)], [sefaz(KEY_A, { situacao: 'Em processamento' }), sefaz(KEY_B, { situacao: '' })]);
+
+    expect(results.map(r => r.status)).toEqual([MatchStatus.MATCHED, MatchStatus.MISSING_IN_ACCOUNTING]);
+  });
+
+  it('keeps a single row per key when SEFAZ records are duplicated', () => {
+    const { results } = reconcile(
+      [acc(KEY_A), acc(KEY_A)],
+      [sefaz(KEY_A), sefaz(KEY_A, { situacao: 'Cancelada' })]
+    );
+
+    expect(results).toHaveLength(1);
+    expect(results[0].status).toBe(MatchStatus.MATCHED);
+  });
+
+  it('returns empty results for empty inputs', () => {
+    const { results, stats } = reconcile([], []);
+
+    expect(results).toEqual([]);
+    expect(stats).toEqual({ total: 0, matched: 0, missingInAccounting: 0, missingInSefaz: 0, valueDivergence: 0, cancelled: 0, cancelledButBooked: 0, matchedByNumber: 0, ignoredByRule: 0, outOfPeriod: 0, denied: 0, deniedButBooked: 0, voided: 0, voidedButBooked: 0, pendingCancellation: 0, inContingency: 0, others: 0 });
+  });
+
+  it('normalises formatted keys and ignores empty ones', () => {
+    const formatted = KEY_A.replace(/(\d{4})/g, '$1 ').trim();
+    const { results } = reconcile([acc(formatted), acc('')], [sefaz(KEY_A), sefaz('  ')]);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].chave).toBe(KEY_A);
+    expect(results[0].status).toBe(MatchStatus.MATCHED);
+  });
+
+  it('keeps records with invalid keys out of the matching', () => {
+    const { results } = reconcile(
+      [acc(KEY_A, { keyError: 'Dígito verificador inválido' }), acc(KEY_B)],
+      [sefaz(KEY_B), sefaz(KEY_C, { keyError: 'Dígito verificador inválido' })]
+    );
+
+    expect(results.map(r => [r.chave, r.status])).toEqual([[KEY_B, MatchStatus.MATCHED]]);
+  });
+
+  it('falls back to the key date when SEFAZ has no date', () => {
+    const { results } = reconcile([], [sefaz(KEY_C, { data: '' })]);
+
+    expect(results[0].data).toBe('2024-02');
+  });
+});
+
+describe('value divergence', () => {
+  it('flags matched keys whose booked amount differs', () => {
+    const { results, stats } = reconcile([acc(KEY_A, { valor: 90 })], [sefaz(KEY_A, { valor: 100 })]);
+
+    expect(results[0].status).toBe(MatchStatus.VALUE_DIVERGENCE);
+    expect(results[0].valorSefaz).toBe(100);
+    expect(results[0].valorContabil).toBe(90);
+    expect(results[0].diferenca).toBe(-10);
+    expect(stats.valueDivergence).toBe(1);
+  });
+
+  it('does not compare when the SEFAZ export has no value', () => {
+    const { results } = reconcile([acc(KEY_A, { valor: 90 })], [sefaz(KEY_A)]);
+
+    expect(results[0].status).toBe(MatchStatus.MATCHED);
+    expect(results[0].diferenca).toBeUndefined();
+  });
+
+  it('accepts differences within the tolerance', () => {
+    const records = [acc(KEY_A, { valor: 100.05 })];
+    const notes = [sefaz(KEY_A, { valor: 100 })];
+
+    expect(reconcile(records, notes, { valueTolerance: { mode: 'cents', amount: 5 } }).results[0].status).toBe(MatchStatus.MATCHED);
+    expect(reconcile(records, notes, { valueTolerance: { mode: 'cents', amount: 4 } }).results[0].status).toBe(MatchStatus.VALUE_DIVERGENCE);
+  });
+
+  it('supports percentage tolerance', () => {
+    expect(isValueDivergent(1000, 1009, { mode: 'percent', amount: 1 })).toBe(false);
+    expect(isValueDivergent(1000, 1011, { mode: 'percent', amount: 1 })).toBe(true);
+    expect(isValueDivergent(0.1 + 0.2, 0.3, { mode: 'cents', amount: 0 })).toBe(false);
+  });
+});
+
+describe('fallback matching by number', () => {
+  const keyless = (overrides: Partial<AccountingRecord> = {}) =>
+    acc('', { id: 'linha-5', numero: '101', dataEmissao: '10/01/2024', keyError: 'Sem chave de acesso', ...overrides });
+
+  it('pairs a keyless entry with the unbooked note of the same number', () => {
+    const { results, stats } = reconcile([keyless()], [sefaz(KEY_A, { valor: 100 })]);
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ id: `${KEY_A}~linha-5`, status: MatchStatus.MATCHED_BY_NUMBER, matchConfidence: 65, valorContabil: 100, diferenca: 0 });
+    expect(stats.matchedByNumber).toBe(1);
+    expect(stats.missingInAccounting).toBe(0);
+  });
+
+  it('uses issuer and series from a mistyped key', () => {
+    const typo = KEY_A.substring(0, 43) + '9';
+    const { results } = reconcile([acc(typo, { keyError: 'Dígito verificador inválido', dataEmissao: '' })], [sefaz(KEY_A, { valor: 100 })]);
+
+    expect(results[0]).toMatchObject({ status: MatchStatus.MATCHED_BY_NUMBER, matchConfidence: 90 });
+  });
+
+  it('does not pair notes of another issuer that share the number', () => {
+    const otherIssuer = KEY_A.substring(0, 6) + '98765432000110' + KEY_A.substring(20);
+
+    expect(scoreFallbackMatch(sefaz(KEY_A, { valor: 100 }), acc(otherIssuer), { mode: 'cents', amount: 0 })).toBe(40);
+    expect(reconcile([acc(otherIssuer, { keyError: 'Dígito verificador inválido' })], [sefaz(KEY_A, { valor: 100 })]).results[0].status)
+      .toBe(MatchStatus.MISSING_IN_ACCOUNTING);
+  });
+
+  it('needs more than a shared number', () => {
+    const { results } = reconcile([keyless({ valor: 0, dataEmissao: '' })], [sefaz(KEY_A, { valor: 100 })]);
+
+    expect(results[0].status).toBe(MatchStatus.MISSING_IN_ACCOUNTING);
+  });
+
+  it('prefers the most confident candidate and pairs one to one', () => {
+    const { results } = reconcile(
+      [keyless({ id: 'linha-5', valor: 90 }), keyless({ id: 'linha-6' })],
+      [sefaz(KEY_A, { valor: 100 })]
+    );
+
+    expect(results[0].accountingRecord?.id).toBe('linha-6');
+  });
+
+  it('applies the auditor review', () => {
+    const notes = [sefaz(KEY_A, { valor: 100 })];
+    const id = `${KEY_A}~linha-5`;
+
+    const accepted = reconcile([keyless()], notes, { matchReviews: { [id]: 'accepted' } }).results[0];
+    expect(accepted).toMatchObject({ status: MatchStatus.MATCHED, matchReview: 'accepted', matchConfidence: 65 });
+
+    const rejected = reconcile([keyless()], notes, { matchReviews: { [id]: 'rejected' } }).results;
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].status).toBe(MatchStatus.MISSING_IN_ACCOUNTING);
+  });
+
+  it('can be turned off', () => {
+    expect(reconcile([keyless()], [sefaz(KEY_A, { valor: 100 })], { fallbackMatching: false }).results[0].status)
+      .toBe(MatchStatus.MISSING_IN_ACCOUNTING);
+  });
+});
+
+describe('companies', () => {
+  it('files each note under its recipient, never under the issuer', () => {
+    const { results } = reconcile([acc(KEY_D)], [sefaz(KEY_A, { cnpjDestinatario: '11222333000181' }), sefaz(KEY_B, { cnpjDestinatario: '44555666000199' })]);
+    const byKey = (chave: string) => results.find(r => r.chave === chave)!;
+
+    expect(byKey(KEY_A)).toMatchObject({ cnpjEmitente: '12345678000190', cnpjDestinatario: '11222333000181', empresa: '11222333000181' });
+    expect(byKey(KEY_B).empresa).toBe('44555666000199');
+    // Two recipients in the import: the accounting-only entry can't be placed
+    expect(byKey(KEY_D)).toMatchObject({ status: MatchStatus.MISSING_IN_SEFAZ, cnpjEmitente: '98765432000155', empresa: '' });
+    // Results saved before the company was set fall back to the recipient
+    expect(companyOf({ ...byKey(KEY_A), empresa: undefined })).toBe('11222333000181');
+  });
+
+  it('files accounting-only entries under the single recipient of the import', () => {
+    const { results } = reconcile([acc(KEY_A), acc(KEY_D)], [sefaz(KEY_A, { cnpjDestinatario: '11222333000181' }), sefaz(KEY_B)]);
+
+    expect(results.map(r => [r.chave, r.empresa])).toEqual([
+      [KEY_A, '11222333000181'],
+      [KEY_B, '11222333000181'],
+      [KEY_D, '11222333000181']
+    ]);
+  });
+
+  it('breaks stats down per company and keeps unbooked and unknown notes in the scope', () => {
+    const { results } = reconcile(
+      [acc(KEY_A), acc(KEY_D)],
+      [sefaz(KEY_A, { cnpjDestinatario: '11222333000181' }), sefaz(KEY_B, { cnpjDestinatario: '11222333000181' })]
+    );
+
+    expect(statsByCompany(results).map(c => [c.cnpj, c.stats.total, c.stats.missingInAccounting, c.stats.missingInSefaz])).toEqual([
+      ['11222333000181', 3, 1, 1]
+    ]);
+    expect(filterResults(results, { ...EMPTY_FILTERS, empresa: '11222333000181' }).map(r => r.status)).toEqual([
+      MatchStatus.MATCHED, MatchStatus.MISSING_IN_ACCOUNTING, MatchStatus.MISSING_IN_SEFAZ
+    ]);
+    expect(filterResults(results, { ...EMPTY_FILTERS, empresa: '98765432000155' })).toEqual([]);
+    expect(describeFilters({ ...EMPTY_FILTERS, empresa: '11222333000181' })).toEqual(['Empresa: 11.222.333/0001-81']);
+  });
+
+  it('leaves notes without company when no source lists the recipient', () => {
+    const { results } = reconcile([acc(KEY_D)], [sefaz(KEY_A)]);
+
+    expect(statsByCompany(results).map(c => [c.cnpj, c.stats.total])).toEqual([['', 2]]);
+  });
+
+  it('finds the CNPJs both sides have in common', () => {
+    expect(sharedCompanies([acc(KEY_A), acc(KEY_D)], [sefaz(KEY_B)])).toEqual(['12345678000190']);
+    expect(sharedCompanies([acc(KEY_D)], [sefaz(KEY_A), sefaz(KEY_B)])).toEqual([]);
+    expect(sharedCompanies([acc(KEY_D)], [sefaz(KEY_A, { cnpjDestinatario: '98765432000155' })])).toEqual(['98765432000155']);
+  });
+});
+
+describe('competence period', () => {
+  const period = { from: '2024-01', to: '2024-01' };
+
+  it('sets unmatched notes of other months apart instead of leaving them pending', () => {
+    const { results, stats } = reconcile(
+      [acc(KEY_A), acc(KEY_B, { dataEmissao: '2023-12-28' })],
+      [sefaz(KEY_A, { data: '2024-01-31' }), sefaz(KEY_C, { data: '2024-02-01' })],
+      { period }
+    );
+
+    expect(results.find(r => r.chave === KEY_A)?.status).toBe(MatchStatus.MATCHED);
+    expect(results.find(r => r.chave === KEY_B)?.status).toBe(MatchStatus.OUT_OF_PERIOD);
+    expect(results.find(r => r.chave === KEY_C)?.status).toBe(MatchStatus.OUT_OF_PERIOD);
+    expect(stats).toMatchObject({ outOfPeriod: 2, missingInAccounting: 0, missingInSefaz: 0 });
+  });
+
+  it('keeps notes of the period pending, dated by the key when SEFAZ has none', () => {
+    const { results } = reconcile([], [sefaz(KEY_A, { data: '2024-01-05' }), sefaz(KEY_B, { data: '' })], { period });
+
+    expect(results.map(r => r.status)).toEqual([MatchStatus.MISSING_IN_ACCOUNTING, MatchStatus.MISSING_IN_ACCOUNTING]);
+  });
+
+  it('compares competences with open ends and older date text', () => {
+    expect(isOutOfPeriod('2024-03', { from: '2024-02', to: '' })).toBe(false);
+    expect(isOutOfPeriod('15/01/2024', { from: '2024-02', to: '' })).toBe(true);
+    expect(isOutOfPeriod('', period)).toBe(false);
+    expect(describePeriodRange(period)).toBe('01/2024');
+    expect(describePeriodRange({ from: '2024-01', to: '2024-03' })).toBe('01/2024 a 03/2024');
+    expect(describePeriodRange({ from: '', to: '' })).toBe('');
+  });
+});
+
+describe('computeStats', () => {
+  it('counts unknown statuses as others', () => {
+    const { results } = reconcile([acc(KEY_A)], [sefaz(KEY_A)]);
+    const stats = computeStats([...results, { ...results[0], id: 'x', status: 'Outro' as MatchStatus }]);
+
+    expect(stats.total).toBe(2);
+    expect(stats.others).toBe(1);
+  });
+});
+
+describe('filterResults / sortResults', () => {
+  const { results } = reconcile(
+    [acc(KEY_A)],
+    [
+      sefaz(KEY_A, { data: '20/01/2024', valor: 100 }),
+      sefaz(KEY_B, { data: '05/02/2024', valor: 50, serie: '2', emitente: 'OUTRO FORNECEDOR SA' }),
+      sefaz(KEY_C, { data: '15/01/2024', valor: 100, situacao: 'Cancelada' })
+    ]
+  );
+  const chaves = (list: typeof results) => list.map(r => r.chave);
+
+  it('filters by text and status', () => {
+    expect(chaves(filterResults(results, { ...EMPTY_FILTERS, text: 'cancel' }))).toEqual([KEY_C]);
+    expect(chaves(filterResults(results, { ...EMPTY_FILTERS, statuses: [MatchStatus.MATCHED] }))).toEqual([KEY_A]);
+    expect(chaves(filterResults(results, { ...EMPTY_FILTERS, statuses: [MatchStatus.MATCHED, MatchStatus.CANCELLED] }))).toEqual([KEY_A, KEY_C]);
+  });
+
+  it('filters by date and value ranges', () => {
+    expect(chaves(filterResults(results, { ...EMPTY_FILTERS, dateFrom: '2024-01-16', dateTo: '2024-01-31' }))).toEqual([KEY_A]);
+    expect(chaves(filterResults(results, { ...EMPTY_FILTERS, valueMin: 60 }))).toEqual([KEY_A, KEY_C]);
+    expect(chaves(filterResults(results, { ...EMPTY_FILTERS, valueMax: 60 }))).toEqual([KEY_B]);
+  });
+
+  it('filters by series and issuer', () => {
+    expect(chaves(filterResults(results, { ...EMPTY_FILTERS, serie: '002' }))).toEqual([KEY_B]);
+    expect(chaves(filterResults(results, { ...EMPTY_FILTERS, emitente: 'outro' }))).toEqual([KEY_B]);
+  });
+
+  it('sorts DD/MM/YYYY dates chronologically', () => {
+    const asc = sortResults(results, [{ key: 'data', direction: 'asc' }]).map(r => r.chave);
+    const desc = sortResults(results, [{ key: 'data', direction: 'desc' }]).map(r => r.chave);
+
+    expect(asc).toEqual([KEY_C, KEY_A, KEY_B]);
+    expect(desc).toEqual([KEY_B, KEY_A, KEY_C]);
+  });
+
+  it('breaks ties with the next sort column', () => {
+    const sorted = sortResults(results, [{ key: 'valor', direction: 'desc' }, { key: 'data', direction: 'asc' }]);
+
+    expect(chaves(sorted)).toEqual([KEY_C, KEY_A, KEY_B]);
+  });
+
+  it('returns the input untouched without sort columns', () => {
+    expect(sortResults(results, [])).toBe(results);
+  });
+
+  it('filters by annotation and justification', () => {
+    const annotated = results.map(r => r.chave === KEY_B
+      ? { ...r, annotation: { category: 'Devolvida', comment: 'nf 55', resolution: 'resolved' as const, updatedAt: '' } }
+      : r);
+
+    expect(chaves(filterResults(annotated, { ...EMPTY_FILTERS, annotation: 'annotated' }))).toEqual([KEY_B]);
+    expect(chaves(filterResults(annotated, { ...EMPTY_FILTERS, annotation: 'unsolved' }))).toEqual([KEY_A, KEY_C]);
+    expect(chaves(filterResults(annotated, { ...EMPTY_FILTERS, category: 'Devolvida' }))).toEqual([KEY_B]);
+    expect(chaves(filterResults(annotated, { ...EMPTY_FILTERS, text: 'nf 55' }))).toEqual([KEY_B]);
+  });
+
+  it('describes the active filters', () => {
+    expect(describeFilters(EMPTY_FILTERS)).toEqual([]);
+    expect(describeFilters({ ...EMPTY_FILTERS, statuses: [MatchStatus.MATCHED], dateFrom: '2024-01-01', serie: '2' }))
+      .toEqual(['Status: Lançada', 'Data: 01/01/2024 a ...', 'Série: 2']);
+  });
+});
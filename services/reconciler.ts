@@ -0,0 +1,543 @@
+import { AccountingRecord, SefazRecord, ComparisonResult, MatchStatus, MatchReview, SummaryStats, SortConfig, ResultFilters, AnnotationFilter, NoteAnnotation, ValueTolerance, CompetencePeriod, SefazSituation } from '../types';
+import { normalizeKey, extractDateFromKey, parseKeyParts, formatCurrency, formatCnpj, toIsoDate, competenceOf } from '../utils';
+import { classifySituacao } from './sefazSituation';
+
+export interface ReconcileOptions {
+  // Emit rows for accounting entries whose key is absent from the SEFAZ export
+  includeMissingInSefaz?: boolean;
+  // Allowed difference between SEFAZ and accounting values before a match is flagged as divergent
+  valueTolerance?: ValueTolerance;
+  // Second pass pairing unmatched notes by number, series, issuer and value/date
+  fallbackMatching?: boolean;
+  // Auditor decisions on fallback matches, keyed by result id
+  matchReviews?: Record<string, MatchReview>;
+  // Competence months under review: unmatched notes dated outside become OUT_OF_PERIOD instead of pending
+  period?: CompetencePeriod;
+}
+
+export interface ReconcileOutput {
+  results: ComparisonResult[];
+  stats: SummaryStats;
+}
+
+export const EMPTY_PERIOD: CompetencePeriod = { from: '', to: '' };
+
+const DEFAULT_OPTIONS: Required<ReconcileOptions> = {
+  includeMissingInSefaz: true,
+  valueTolerance: { mode: 'cents', amount: 0 },
+  fallbackMatching: true,
+  matchReviews: {},
+  period: EMPTY_PERIOD
+};
+
+// --- Values ---
+
+export const isValueDivergent = (valorSefaz: number, valorContabil: number, tolerance: ValueTolerance): boolean => {
+  // Work in cents to avoid floating point noise
+  const diffCents = Math.abs(Math.round(valorContabil * 100) - Math.round(valorSefaz * 100));
+  if (diffCents === 0) return false;
+
+  if (tolerance.mode === 'percent') {
+    if (valorSefaz === 0) return true;
+    return diffCents / Math.abs(valorSefaz * 100) * 100 > tolerance.amount;
+  }
+  return diffCents > tolerance.amount;
+};
+
+// --- SEFAZ situations ---
+
+// What each situation means for the books: documents without legal effect must not be booked, notes still
+// waiting on SEFAZ are set apart until the next run, and everything else must be booked at the SEFAZ value
+const statusForSituation = (situation: SefazSituation, booked: boolean, divergent: boolean): MatchStatus => {
+  switch (situation) {
+    // Booking a void document means credit taken on it: never let it pass as a plain cancellation
+    case SefazSituation.CANCELLED: return booked ? MatchStatus.CANCELLED_BUT_BOOKED : MatchStatus.CANCELLED;
+    case SefazSituation.DENIED: return booked ? MatchStatus.DENIED_BUT_BOOKED : MatchStatus.DENIED;
+    case SefazSituation.VOIDED_RANGE: return booked ? MatchStatus.VOIDED_BUT_BOOKED : MatchStatus.VOIDED;
+    // Booked or not, the outcome depends on SEFAZ
+    case SefazSituation.PENDING_CANCELLATION: return MatchStatus.PENDING_CANCELLATION;
+    case SefazSituation.CONTINGENCY: return MatchStatus.IN_CONTINGENCY;
+    // Authorised, and wordings the mapping doesn't know yet (see unknownSituations)
+    default:
+      if (!booked) return MatchStatus.MISSING_IN_ACCOUNTING;
+      return divergent ? MatchStatus.VALUE_DIVERGENCE : MatchStatus.MATCHED;
+  }
+};
+
+// --- Fallback matching (number + series + issuer) ---
+
+// Below this a shared note number is treated as coincidence (numbers repeat across issuers)
+export const MIN_FALLBACK_CONFIDENCE = 50;
+
+const stripNumber = (value: string | undefined): string => normalizeKey(value || '').replace(/^0+/, '');
+
+// Splits a date into comparable month and day (absent for dates taken from the key)
+const dateParts = (value: string | undefined): { day?: string; month: string } | null => {
+  const iso = toIsoDate(value);
+  if (!iso) return null;
+  return { day: iso.substring(8) || undefined, month: iso.substring(0, 7) };
+};
+
+// Confidence (0-100) that an accounting entry is the SEFAZ note despite a missing or wrong key.
+// The note number must agree; series and issuer CNPJ come from whatever the accounting key still holds.
+export const scoreFallbackMatch = (sefaz: SefazRecord, acc: AccountingRecord, tolerance: ValueTolerance): number => {
+  const numero = stripNumber(sefaz.numero);
+  if (!numero || numero !== stripNumber(acc.numero)) return 0;
+
+  let score = 35;
+  const sefazParts = parseKeyParts(sefaz.chave);
+  const accParts = parseKeyParts(acc.chave);
+
+  if (sefazParts && accParts) {
+    score += sefazParts.cnpj === accParts.cnpj ? 25 : -25;
+    const serie = stripNumber(sefaz.serie) || stripNumber(sefazParts.serie);
+    score += serie === stripNumber(accParts.serie) ? 10 : -10;
+  }
+
+  // Zero is what an unmapped value column produces, so it says nothing
+  if (sefaz.valor !== undefined && acc.valor) {
+    score += isValueDivergent(sefaz.valor, acc.valor, tolerance) ? -20 : 20;
+  }
+
+  const sefazDate = dateParts(sefaz.data || extractDateFromKey(sefaz.chave));
+  const accDate = dateParts(acc.dataEmissao);
+  if (sefazDate && accDate) {
+    if (sefazDate.month !== accDate.month) score -= 10;
+    else score += sefazDate.day && sefazDate.day === accDate.day ? 10 : 5;
+  }
+
+  return Math.max(0, Math.min(100, score));
+};
+
+// --- Competence period ---
+
+// Notes without a usable date are never out of period: nothing says they belong elsewhere
+export const isOutOfPeriod = (date: string | undefined, period: CompetencePeriod): boolean => {
+  const competence = competenceOf(date);
+  if (!competence) return false;
+  return (!!period.from && competence < period.from) || (!!period.to && competence > period.to);
+};
+
+// "01/2024 a 03/2024", '' when the period is open on both ends
+export const describePeriodRange = (period: CompetencePeriod): string => {
+  const month = (value: string) => value ? value.split('-').reverse().join('/') : '...';
+  if (!period.from && !period.to) return '';
+  return period.from === period.to ? month(period.from) : `${month(period.from)} a ${month(period.to)}`;
+};
+
+// --- Companies ---
+
+// The company is the establishment that received the note, never the supplier that issued it
+const companyFields = (chave: string, cnpjDestinatario: string | undefined, importRecipient: string) => ({
+  cnpjEmitente: parseKeyParts(chave)?.cnpj ?? '',
+  cnpjDestinatario,
+  empresa: cnpjDestinatario || importRecipient
+});
+
+// The accounting side never says who received a note: when every SEFAZ source that lists a recipient
+// names the same one, the whole import belongs to it; otherwise unknown recipients stay without company ('')
+const singleRecipient = (sefazData: SefazRecord[]): string => {
+  const recipients = new Set(sefazData.map(s => s.cnpjDestinatario).filter(Boolean));
+  return recipients.size === 1 ? Array.from(recipients)[0]! : '';
+};
+
+// Also covers results saved before reconcile set the company
+export const companyOf = (result: ComparisonResult): string =>
+  result.empresa ?? result.cnpjDestinatario ?? '';
+
+export interface CompanyStats {
+  cnpj: string; // '' for notes whose recipient is unknown
+  stats: SummaryStats;
+}
+
+// Busiest companies first
+export const statsByCompany = (results: ComparisonResult[]): CompanyStats[] => {
+  const byCompany = new Map<string, ComparisonResult[]>();
+  results.forEach(r => {
+    const cnpj = companyOf(r);
+    const rows = byCompany.get(cnpj);
+    if (rows) rows.push(r);
+    else byCompany.set(cnpj, [r]);
+  });
+  return Array.from(byCompany, ([cnpj, rows]) => ({ cnpj, stats: computeStats(rows) }))
+    .sort((a, b) => b.stats.total - a.stats.total || a.cnpj.localeCompare(b.cnpj));
+};
+
+// CNPJs found on both sides (issuers from the keys, plus SEFAZ recipients); none usually means files from different clients
+export const sharedCompanies = (accountingData: AccountingRecord[], sefazData: SefazRecord[]): string[] => {
+  const sefazCnpjs = new Set<string>();
+  sefazData.forEach(s => {
+    const cnpj = parseKeyParts(s.chave)?.cnpj;
+    if (cnpj) sefazCnpjs.add(cnpj);
+    if (s.cnpjDestinatario) sefazCnpjs.add(s.cnpjDestinatario);
+  });
+  const shared = new Set<string>();
+  accountingData.forEach(a => {
+    const cnpj = parseKeyParts(a.chave)?.cnpj;
+    if (cnpj && sefazCnpjs.has(cnpj)) shared.add(cnpj);
+  });
+  return Array.from(shared).sort();
+};
+
+// --- Matching ---
+
+export const reconcile = (
+  accountingData: AccountingRecord[],
+  sefazData: SefazRecord[],
+  options: ReconcileOptions = {}
+): ReconcileOutput => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+
+  // Create a typed Map for efficient lookups
+  const mapAccounting = new Map<string, AccountingRecord>();
+  accountingData.forEach(item => {
+    const chave = normalizeKey(item.chave);
+    // Invalid keys are listed separately instead of producing false pendencies;
+    // duplicated keys keep their first occurrence, as the import report states
+    if (chave && !item.keyError && !mapAccounting.has(chave)) {
+      mapAccounting.set(chave, item);
+    }
+  });
+
+  const comparison: ComparisonResult[] = [];
+  const sefazKeys = new Set<string>();
+  const importRecipient = singleRecipient(sefazData);
+
+  // Iterate Sefaz records (Authority)
+  sefazData.forEach(sefaz => {
+    const chave = normalizeKey(sefaz.chave);
+    // Skip empty or invalid keys and duplicates (first occurrence wins, same as parseSefazFiles)
+    if (!chave || sefaz.keyError || sefazKeys.has(chave)) return;
+    sefazKeys.add(chave);
+
+    const match = mapAccounting.get(chave);
+    const hasBothValues = match !== undefined && sefaz.valor !== undefined;
+    const status = statusForSituation(
+      classifySituacao(sefaz.situacao),
+      !!match,
+      hasBothValues && isValueDivergent(sefaz.valor!, match!.valor, opts.valueTolerance)
+    );
+
+    comparison.push({
+      id: chave,
+      chave: chave,
+      numero: sefaz.numero,
+      serie: sefaz.serie,
+      emitente: sefaz.emitente,
+      // Use extracted date if still missing from parser
+      data: sefaz.data || extractDateFromKey(chave),
+      valor: sefaz.valor ?? (match ? match.valor : 0),
+      valorSefaz: sefaz.valor,
+      valorContabil: match?.valor,
+      diferenca: hasBothValues ? Math.round((match!.valor - sefaz.valor!) * 100) / 100 : undefined,
+      situacaoSefaz: sefaz.situacao,
+      status: status,
+      ...companyFields(chave, sefaz.cnpjDestinatario, importRecipient),
+      sefazRecord: sefaz,
+      accountingRecord: match
+    });
+  });
+
+  // Entries whose key is missing or wrong: pair them with unbooked notes by number instead
+  const pairedAccounting = new Set<AccountingRecord>();
+  if (opts.fallbackMatching) {
+    const matchedAccounting = new Set(comparison.map(r => r.accountingRecord).filter(Boolean));
+    // Indexed by note number, the only criterion every candidate must share
+    const unmatchedByNumber = new Map<string, AccountingRecord[]>();
+    accountingData.forEach(acc => {
+      const numero = stripNumber(acc.numero);
+      if (!numero || matchedAccounting.has(acc) || sefazKeys.has(normalizeKey(acc.chave))) return;
+      const sameNumber = unmatchedByNumber.get(numero);
+      if (sameNumber) sameNumber.push(acc);
+      else unmatchedByNumber.set(numero, [acc]);
+    });
+
+    const candidates: { index: number; acc: AccountingRecord; id: string; score: number }[] = [];
+    comparison.forEach((result, index) => {
+      if (result.status !== MatchStatus.MISSING_IN_ACCOUNTING) return;
+      (unmatchedByNumber.get(stripNumber(result.numero)) || []).forEach(acc => {
+        const id = `${result.chave}~${acc.id}`;
+        if (opts.matchReviews[id] === 'rejected') return;
+        const score = scoreFallbackMatch(result.sefazRecord!, acc, opts.valueTolerance);
+        if (score >= MIN_FALLBACK_CONFIDENCE) candidates.push({ index, acc, id, score });
+      });
+    });
+
+    // Greedy one-to-one assignment, most confident pairs first
+    const pairedNotes = new Set<number>();
+    candidates.sort((a, b) => b.score - a.score).forEach(({ index, acc, id, score }) => {
+      if (pairedNotes.has(index) || pairedAccounting.has(acc)) return;
+      pairedNotes.add(index);
+      pairedAccounting.add(acc);
+
+      const result = comparison[index];
+      const review = opts.matchReviews[id];
+      const divergent = result.valorSefaz !== undefined && isValueDivergent(result.valorSefaz, acc.valor, opts.valueTolerance);
+      comparison[index] = {
+        ...result,
+        id,
+        valor: result.valorSefaz ?? acc.valor,
+        valorContabil: acc.valor,
+        diferenca: result.valorSefaz !== undefined ? Math.round((acc.valor - result.valorSefaz) * 100) / 100 : undefined,
+        status: review === 'accepted'
+          ? (divergent ? MatchStatus.VALUE_DIVERGENCE : MatchStatus.MATCHED)
+          : MatchStatus.MATCHED_BY_NUMBER,
+        accountingRecord: acc,
+        matchConfidence: score,
+        matchReview: review
+      };
+    });
+  }
+
+  // Unbooked notes issued in another competence belong to that month's run
+  comparison.forEach(result => {
+    if (result.status === MatchStatus.MISSING_IN_ACCOUNTING && isOutOfPeriod(result.data, opts.period)) {
+      result.status = MatchStatus.OUT_OF_PERIOD;
+    }
+  });
+
+  // Accounting entries without a SEFAZ counterpart (typos, other states, fabricated entries)
+  if (opts.includeMissingInSefaz) {
+    mapAccounting.forEach((acc, chave) => {
+      if (sefazKeys.has(chave) || pairedAccounting.has(acc)) return;
+
+      const data = acc.dataEmissao || extractDateFromKey(chave);
+      comparison.push({
+        id: chave,
+        chave: chave,
+        numero: acc.numero,
+        serie: '',
+        emitente: '',
+        data,
+        valor: acc.valor,
+        valorContabil: acc.valor,
+        situacaoSefaz: '',
+        status: isOutOfPeriod(data, opts.period) ? MatchStatus.OUT_OF_PERIOD : MatchStatus.MISSING_IN_SEFAZ,
+        ...companyFields(chave, undefined, importRecipient),
+        accountingRecord: acc
+      });
+    });
+  }
+
+  return { results: comparison, stats: computeStats(comparison) };
+};
+
+// --- Stats ---
+
+// Booked notes, whatever their value
+export const BOOKED_STATUSES = [MatchStatus.MATCHED, MatchStatus.MATCHED_BY_NUMBER, MatchStatus.VALUE_DIVERGENCE];
+
+export interface StatsRow {
+  key: keyof SummaryStats;
+  label: string;
+  status?: MatchStatus; // absent for the total and "Outros"
+  optional?: boolean; // only worth a row when some note has that status
+}
+
+// Summary counters as the reports list them; add a row here with every new MatchStatus
+export const STATS_ROWS: StatsRow[] = [
+  { key: 'total', label: 'Total analisado' },
+  { key: 'matched', status: MatchStatus.MATCHED, label: 'Lançadas' },
+  { key: 'matchedByNumber', status: MatchStatus.MATCHED_BY_NUMBER, label: 'Conciliadas por número' },
+  { key: 'missingInAccounting', status: MatchStatus.MISSING_IN_ACCOUNTING, label: 'Não lançadas' },
+  { key: 'missingInSefaz', status: MatchStatus.MISSING_IN_SEFAZ, label: 'Não encontradas na SEFAZ' },
+  { key: 'valueDivergence', status: MatchStatus.VALUE_DIVERGENCE, label: 'Valor divergente' },
+  { key: 'cancelled', status: MatchStatus.CANCELLED, label: 'Canceladas' },
+  { key: 'cancelledButBooked', status: MatchStatus.CANCELLED_BUT_BOOKED, label: 'Canceladas mas lançadas' },
+  { key: 'ignoredByRule', status: MatchStatus.IGNORED_BY_RULE, label: 'Desconsideradas por regra' },
+  { key: 'outOfPeriod', status: MatchStatus.OUT_OF_PERIOD, label: 'Fora do período' },
+  { key: 'denied', status: MatchStatus.DENIED, label: 'Denegadas', optional: true },
+  { key: 'deniedButBooked', status: MatchStatus.DENIED_BUT_BOOKED, label: 'Denegadas mas lançadas', optional: true },
+  { key: 'voided', status: MatchStatus.VOIDED, label: 'Inutilizadas', optional: true },
+  { key: 'voidedButBooked', status: MatchStatus.VOIDED_BUT_BOOKED, label: 'Inutilizadas mas lançadas', optional: true },
+  { key: 'pendingCancellation', status: MatchStatus.PENDING_CANCELLATION, label: 'Cancelamento pendente', optional: true },
+  { key: 'inContingency', status: MatchStatus.IN_CONTINGENCY, label: 'Em contingência', optional: true },
+  // Statuses this version doesn't know (sessions saved by other versions)
+  { key: 'others', label: 'Outros', optional: true }
+];
+
+export const computeStats = (results: ComparisonResult[]): SummaryStats => {
+  const s: SummaryStats = {
+    total: results.length,
+    matched: 0,
+    missingInAccounting: 0,
+    missingInSefaz: 0,
+    valueDivergence: 0,
+    cancelled: 0,
+    cancelledButBooked: 0,
+    matchedByNumber: 0,
+    ignoredByRule: 0,
+    outOfPeriod: 0,
+    denied: 0,
+    deniedButBooked: 0,
+    voided: 0,
+    voidedButBooked: 0,
+    pendingCancellation: 0,
+    inContingency: 0,
+    others: 0
+  };
+  results.forEach(r => {
+    if (r.status === MatchStatus.MATCHED) s.matched++;
+    else if (r.status === MatchStatus.MISSING_IN_ACCOUNTING) s.missingInAccounting++;
+    else if (r.status === MatchStatus.MISSING_IN_SEFAZ) s.missingInSefaz++;
+    else if (r.status === MatchStatus.VALUE_DIVERGENCE) s.valueDivergence++;
+    else if (r.status === MatchStatus.CANCELLED) s.cancelled++;
+    else if (r.status === MatchStatus.CANCELLED_BUT_BOOKED) s.cancelledButBooked++;
+    else if (r.status === MatchStatus.MATCHED_BY_NUMBER) s.matchedByNumber++;
+    else if (r.status === MatchStatus.IGNORED_BY_RULE) s.ignoredByRule++;
+    else if (r.status === MatchStatus.OUT_OF_PERIOD) s.outOfPeriod++;
+    else if (r.status === MatchStatus.DENIED) s.denied++;
+    else if (r.status === MatchStatus.DENIED_BUT_BOOKED) s.deniedButBooked++;
+    else if (r.status === MatchStatus.VOIDED) s.voided++;
+    else if (r.status === MatchStatus.VOIDED_BUT_BOOKED) s.voidedButBooked++;
+    else if (r.status === MatchStatus.PENDING_CANCELLATION) s.pendingCancellation++;
+    else if (r.status === MatchStatus.IN_CONTINGENCY) s.inContingency++;
+    else s.others++;
+  });
+  return s;
+};
+
+// --- Filter & Sort ---
+
+export const EMPTY_FILTERS: ResultFilters = {
+  text: '',
+  statuses: [],
+  dateFrom: '',
+  dateTo: '',
+  serie: '',
+  emitente: '',
+  annotation: 'all',
+  category: '',
+  empresa: ''
+};
+
+// Timestamp of a date (month-only dates count from the 1st), 0 when unknown
+const parseDate = (value: unknown): number => {
+  const iso = toIsoDate(value);
+  if (!iso) return 0;
+  const [year, month, day] = iso.split('-').map(Number);
+  return new Date(year, month - 1, day || 1).getTime();
+};
+
+const matchesAnnotationFilter = (annotation: NoteAnnotation | undefined, filter: AnnotationFilter): boolean => {
+  switch (filter) {
+    case 'annotated': return !!annotation;
+    case 'none': return !annotation;
+    case 'unsolved': return annotation?.resolution !== 'resolved' && annotation?.resolution !== 'ignored';
+    case 'resolved':
+    case 'ignored': return annotation?.resolution === filter;
+    default: return true;
+  }
+};
+
+const stripLeadingZeros = (value: string) => value.trim().replace(/^0+(?=\d)/, '');
+
+export const filterResults = (results: ComparisonResult[], filters: ResultFilters): ComparisonResult[] => {
+  const text = filters.text.toLowerCase();
+  const emitente = filters.emitente.trim().toLowerCase();
+  const serie = stripLeadingZeros(filters.serie);
+  const dateFrom = parseDate(filters.dateFrom);
+  const dateTo = parseDate(filters.dateTo);
+
+  return results.filter(r => {
+    const matchesText = !text ||
+      r.numero?.toLowerCase().includes(text) ||
+      r.chave?.includes(filters.text) ||
+      r.situacaoSefaz?.toLowerCase().includes(text) ||
+      r.emitente?.toLowerCase().includes(text) ||
+      r.annotation?.comment.toLowerCase().includes(text);
+    if (!matchesText) return false;
+
+    if (filters.statuses.length > 0 && !filters.statuses.includes(r.status)) return false;
+    if (serie && stripLeadingZeros(r.serie || '') !== serie) return false;
+    if (emitente && !r.emitente?.toLowerCase().includes(emitente)) return false;
+    if (!matchesAnnotationFilter(r.annotation, filters.annotation)) return false;
+    if (filters.category && r.annotation?.category !== filters.category) return false;
+    if (filters.empresa && companyOf(r) !== filters.empresa) return false;
+
+    // Rows without a usable date or value fall outside any range
+    if (dateFrom || dateTo) {
+      const date = parseDate(r.data);
+      if (!date || (dateFrom && date < dateFrom) || (dateTo && date > dateTo)) return false;
+    }
+    if (filters.valueMin !== undefined || filters.valueMax !== undefined) {
+      const valor = Number(r.valor);
+      if (!Number.isFinite(valor)) return false;
+      if (filters.valueMin !== undefined && valor < filters.valueMin) return false;
+      if (filters.valueMax !== undefined && valor > filters.valueMax) return false;
+    }
+
+    return true;
+  });
+};
+
+export const ANNOTATION_FILTER_LABELS: Record<AnnotationFilter, string> = {
+  all: 'Todas',
+  annotated: 'Com anotação',
+  none: 'Sem anotação',
+  unsolved: 'Sem solução',
+  resolved: 'Resolvidas',
+  ignored: 'Ignoradas'
+};
+
+// Human-readable list of the active filters, for report headers
+export const describeFilters = (filters: ResultFilters): string[] => {
+  const formatBound = (iso: string) => iso.split('-').reverse().join('/');
+  const described: string[] = [];
+  if (filters.text) described.push(`Busca: "${filters.text}"`);
+  if (filters.statuses.length > 0) described.push(`Status: ${filters.statuses.join(', ')}`);
+  if (filters.dateFrom || filters.dateTo) {
+    described.push(`Data: ${filters.dateFrom ? formatBound(filters.dateFrom) : '...'} a ${filters.dateTo ? formatBound(filters.dateTo) : '...'}`);
+  }
+  if (filters.valueMin !== undefined || filters.valueMax !== undefined) {
+    const bound = (value?: number) => value !== undefined ? formatCurrency(value) : '...';
+    described.push(`Valor: ${bound(filters.valueMin)} a ${bound(filters.valueMax)}`);
+  }
+  if (filters.serie) described.push(`Série: ${filters.serie}`);
+  if (filters.emitente) described.push(`Emitente: ${filters.emitente}`);
+  if (filters.annotation !== 'all') described.push(`Anotação: ${ANNOTATION_FILTER_LABELS[filters.annotation]}`);
+  if (filters.category) described.push(`Justificativa: ${filters.category}`);
+  if (filters.empresa) described.push(`Empresa: ${formatCnpj(filters.empresa)}`);
+  return described;
+};
+
+const compareValues = (a: ComparisonResult, b: ComparisonResult, { key, direction }: SortConfig): number => {
+  const dir = direction === 'asc' ? 1 : -1;
+  let aValue: any = a[key];
+  let bValue: any = b[key];
+
+  // Results from older sessions may still hold DD/MM/YYYY text
+  if (key === 'data') {
+    aValue = parseDate(aValue);
+    bValue = parseDate(bValue);
+  }
+
+  // Annotations sort by justification category
+  if (key === 'annotation') {
+    aValue = a.annotation?.category;
+    bValue = b.annotation?.category;
+  }
+
+  if (aValue === bValue) return 0;
+
+  // Missing values always go last
+  if (aValue == null) return 1;
+  if (bValue == null) return -1;
+
+  if (aValue < bValue) return -dir;
+  if (aValue > bValue) return dir;
+  return 0;
+};
+
+// Sorts by each config in turn; later ones break ties of the earlier
+export const sortResults = (results: ComparisonResult[], sorts: SortConfig[]): ComparisonResult[] => {
+  if (sorts.length === 0) return results;
+
+  return [...results].sort((a, b) => {
+    for (const sort of sorts) {
+      const order = compareValues(a, b, sort);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { diffRuns, countRunChanges } from './runDiff';
+import { ComparisonResult, MatchStatus, RunChange } from '../types';
+
+const row = (chave: string, status: MatchStatus): ComparisonResult => ({
+  id: chave,
+  chave,
+  numero: chave,
+  serie: '1',
+  emitente: 'FORNECEDOR LTDA',
+  data: '10/01/2024',
+  valor: 100,
+  situacaoSefaz: 'Autorizada',
+  status
+});
+
+describe('diffRuns', () => {
+  const previous = [
+    row('A', MatchStatus.MISSING_IN_ACCOUNTING),
+    row('B', MatchStatus.MISSING_IN_ACCOUNTING),
+    row('C', MatchStatus.MISSING_IN_ACCOUNTING),
+    row('D', MatchStatus.MATCHED),
+    row('E', MatchStatus.MISSING_IN_ACCOUNTING),
+    row('F', MatchStatus.MATCHED)
+  ];
+  const current = [
+    row('A', MatchStatus.MISSING_IN_ACCOUNTING),
+    row('B', MatchStatus.MATCHED),
+    row('C', MatchStatus.CANCELLED),
+    row('D', MatchStatus.MATCHED),
+    row('F', MatchStatus.CANCELLED_BUT_BOOKED),
+    row('G', MatchStatus.MISSING_IN_ACCOUNTING)
+  ];
+  const entries = diffRuns(previous, current);
+  const changeOf = (chave: string) => entries.find(e => e.chave === chave)?.change;
+
+  it('classifies pending, resolved and cancelled notes', () => {
+    expect(changeOf('A')).toBe(RunChange.STILL_PENDING);
+    expect(changeOf('B')).toBe(RunChange.RESOLVED);
+    expect(changeOf('C')).toBe(RunChange.NEWLY_CANCELLED);
+    expect(changeOf('F')).toBe(RunChange.NEWLY_CANCELLED);
+    expect(changeOf('G')).toBe(RunChange.NEWLY_PENDING);
+  });
+
+  it('reports pending notes missing from the current run', () => {
+    const missing = entries.find(e => e.chave === 'E');
+
+    expect(missing?.change).toBe(RunChange.NOT_IN_CURRENT);
+    expect(missing?.previousStatus).toBe(MatchStatus.MISSING_IN_ACCOUNTING);
+    expect(missing?.currentStatus).toBeUndefined();
+  });
+
+  it('leaves out notes booked in both runs', () => {
+    expect(changeOf('D')).toBeUndefined();
+  });
+
+  it('counts entries per change', () => {
+    expect(countRunChanges(entries)).toEqual({
+      [RunChange.NEWLY_PENDING]: 1,
+      [RunChange.STILL_PENDING]: 1,
+      [RunChange.RESOLVED]: 1,
+      [RunChange.NEWLY_CANCELLED]: 2,
+      [RunChange.NOT_IN_CURRENT]: 1
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { ComparisonResult, MatchStatus, RunChange, RunDiffEntry } from '../types';
+import { BOOKED_STATUSES } from './reconciler';
+
+const CANCELLED_STATUSES = [MatchStatus.CANCELLED, MatchStatus.CANCELLED_BUT_BOOKED];
+
+const isPending = (r?: ComparisonResult) => r?.status === MatchStatus.MISSING_IN_ACCOUNTING;
+const isCancelled = (r?: ComparisonResult) => !!r && CANCELLED_STATUSES.includes(r.status);
+
+// Notes are followed by access key; keyless accounting rows only by their row id
+const runKey = (r: ComparisonResult) => r.chave || r.id;
+
+const classify = (previous?: ComparisonResult, current?: ComparisonResult): RunChange | null => {
+  if (isCancelled(current) && !isCancelled(previous)) return RunChange.NEWLY_CANCELLED;
+  if (isPending(current)) return isPending(previous) ? RunChange.STILL_PENDING : RunChange.NEWLY_PENDING;
+  if (isPending(previous)) {
+    if (!current) return RunChange.NOT_IN_CURRENT;
+    if (BOOKED_STATUSES.includes(current.status)) return RunChange.RESOLVED;
+  }
+  return null;
+};
+
+// Classifies every note that became, stayed or stopped being pending, or was cancelled,
+// between two runs of the same client. Notes unchanged outside those cases are left out.
+export const diffRuns = (previous: ComparisonResult[], current: ComparisonResult[]): RunDiffEntry[] => {
+  const previousByKey = new Map<string, ComparisonResult>();
+  previous.forEach(r => {
+    if (!previousByKey.has(runKey(r))) previousByKey.set(runKey(r), r);
+  });
+
+  const entries: RunDiffEntry[] = [];
+  const seen = new Set<string>();
+  const add = (before?: ComparisonResult, after?: ComparisonResult) => {
+    const change = classify(before, after);
+    const row = (after || before)!;
+    if (!change) return;
+    entries.push({
+      id: runKey(row),
+      chave: row.chave,
+      numero: row.numero,
+      emitente: row.emitente,
+      data: row.data,
+      valor: row.valor,
+      change,
+      previousStatus: before?.status,
+      currentStatus: after?.status
+    });
+  };
+
+  current.forEach(r => {
+    const key = runKey(r);
+    if (seen.has(key)) return;
+    seen.add(key);
+    add(previousByKey.get(key), r);
+  });
+  previousByKey.forEach((r, key) => {
+    if (!seen.has(key)) add(r, undefined);
+  });
+  return entries;
+};
+
+export const countRunChanges = (entries: RunDiffEntry[]): Record<RunChange, number> => {
+  const counts = Object.fromEntries(Object.values(RunChange).map(change => [change, 0])) as Record<RunChange, number>;
+  entries.forEach(e => counts[e.change]++);
+  return counts;
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { classifySituacao, normalizeSituacao, situationFromCStat, unknownSituations } from './sefazSituation';
+import { SefazRecord, SefazSituation } from '../types';
+
+const record = (situacao: string, sourceFile?: string): SefazRecord => ({
+  id: situacao,
+  chave: '',
+  numero: '',
+  serie: '',
+  situacao,
+  emitente: '',
+  data: '',
+  sourceRow: [],
+  sourceFile
+});
+
+describe('classifySituacao', () => {
+  it('maps portal wording to a situation', () => {
+    expect(classifySituacao('Autorizado o uso da NF-e')).toBe(SefazSituation.AUTHORISED);
+    expect(classifySituacao('CANCELADA')).toBe(SefazSituation.CANCELLED);
+    expect(classifySituacao('Uso Denegado')).toBe(SefazSituation.DENIED);
+    expect(classifySituacao('Numeração Inutilizada')).toBe(SefazSituation.VOIDED_RANGE);
+  });
+
+  it('checks specific cancellation wordings before the generic one', () => {
+    expect(classifySituacao('Cancelamento extemporâneo')).toBe(SefazSituation.PENDING_CANCELLATION);
+    expect(classifySituacao('Cancelamento extemporâneo homologado')).toBe(SefazSituation.CANCELLED);
+    expect(classifySituacao('Pedido de cancelamento indeferido')).toBe(SefazSituation.AUTHORISED);
+  });
+
+  it('tells pending contingency apart from notes authorised in contingency', () => {
+    expect(classifySituacao('EPEC')).toBe(SefazSituation.CONTINGENCY);
+    expect(classifySituacao('Emitida em contingência')).toBe(SefazSituation.CONTINGENCY);
+    expect(classifySituacao('Sem protocolo de autorização')).toBe(SefazSituation.CONTINGENCY);
+    expect(classifySituacao('Autorizada em contingência')).toBe(SefazSituation.AUTHORISED);
+  });
+
+  it('treats a blank situation as authorised and anything else as unknown', () => {
+    expect(classifySituacao('  ')).toBe(SefazSituation.AUTHORISED);
+    expect(classifySituacao('Em processamento')).toBe(SefazSituation.UNKNOWN);
+  });
+
+  it('is idempotent over its own labels', () => {
+    Object.values(SefazSituation)
+      .filter(s => s !== SefazSituation.UNKNOWN)
+      .forEach(s => expect(classifySituacao(s)).toBe(s));
+  });
+});
+
+describe('normalizeSituacao', () => {
+  it('returns the label, or the trimmed wording when unknown', () => {
+    expect(normalizeSituacao('Autorizado o uso da NF-e')).toBe('Autorizada');
+    expect(normalizeSituacao('CANCELADA')).toBe('Cancelada');
+    expect(normalizeSituacao('Uso Denegado')).toBe('Denegada');
+    expect(normalizeSituacao(' Em processamento ')).toBe('Em processamento');
+    expect(normalizeSituacao('')).toBe('');
+  });
+});
+
+describe('situationFromCStat', () => {
+  it('maps protocol codes and leaves unknown ones undefined', () => {
+    expect(situationFromCStat('100')).toBe(SefazSituation.AUTHORISED);
+    expect(situationFromCStat('110')).toBe(SefazSituation.DENIED);
+    expect(situationFromCStat('999')).toBeUndefined();
+  });
+});
+
+describe('unknownSituations', () => {
+  it('lists unrecognised wordings with counts and files, most frequent first', () => {
+    const records = [
+      record('Autorizada', 'a.csv'),
+      record('Em processamento', 'a.csv'),
+      record('Suspensa', 'b.csv'),
+      record('Em processamento', 'b.csv'),
+      record('Em processamento', 'a.csv')
+    ];
+
+    expect(unknownSituations(records)).toEqual([
+      { situacao: 'Em processamento', count: 3, files: ['a.csv', 'b.csv'] },
+      { situacao: 'Suspensa', count: 1, files: ['b.csv'] }
+    ]);
+  });
+});
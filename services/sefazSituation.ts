@@ -0,0 +1,69 @@
+import { SefazRecord, SefazSituation } from '../types';
+import { normalizeHeader } from '../utils';
+
+// Wording of the state portals, CSV exports and XML protocols -> normalised situation.
+// Patterns run over normalizeHeader text (lower case, no accents, words joined by "_"); the first match wins,
+// so specific wordings come before generic ones ("Cancelamento extemporâneo" before "cancel").
+// Unrecognised wordings show up in the import warnings: add them here.
+export const SITUATION_MAPPING: { pattern: RegExp; situation: SefazSituation }[] = [
+  { pattern: /inutiliza/, situation: SefazSituation.VOIDED_RANGE },
+  // A refused cancellation leaves the note in force
+  { pattern: /cancel.*indeferid|indeferid.*cancel/, situation: SefazSituation.AUTHORISED },
+  { pattern: /denegad/, situation: SefazSituation.DENIED },
+  { pattern: /extemporane.*(homologad|_deferid)/, situation: SefazSituation.CANCELLED },
+  { pattern: /extemporane|pedido_de_cancelamento|cancelamento_(pendente|em_analise|solicitado)/, situation: SefazSituation.PENDING_CANCELLATION },
+  { pattern: /cancel/, situation: SefazSituation.CANCELLED },
+  { pattern: /sem_protocolo/, situation: SefazSituation.CONTINGENCY },
+  // "Autorizada em contingência" is authorised: only contingency without an authorisation is pending
+  { pattern: /^(?!.*autoriza).*(epec|dpec|conting|fs_da)/, situation: SefazSituation.CONTINGENCY },
+  { pattern: /autoriza/, situation: SefazSituation.AUTHORISED }
+];
+
+// cStat of the authorisation protocol in NF-e XMLs
+const CSTAT_SITUATIONS: Record<string, SefazSituation> = {
+  '100': SefazSituation.AUTHORISED,
+  '150': SefazSituation.AUTHORISED, // authorised out of the deadline
+  '101': SefazSituation.CANCELLED,
+  '151': SefazSituation.CANCELLED,
+  '102': SefazSituation.VOIDED_RANGE,
+  '110': SefazSituation.DENIED,
+  '301': SefazSituation.DENIED,
+  '302': SefazSituation.DENIED,
+  '303': SefazSituation.DENIED
+};
+
+export const situationFromCStat = (cStat: string): SefazSituation | undefined => CSTAT_SITUATIONS[cStat.trim()];
+
+// Sources without a situation column only list issued notes, so a blank situation counts as authorised
+export const classifySituacao = (raw: string): SefazSituation => {
+  const text = normalizeHeader(raw);
+  if (!text) return SefazSituation.AUTHORISED;
+  return SITUATION_MAPPING.find(m => m.pattern.test(text))?.situation ?? SefazSituation.UNKNOWN;
+};
+
+// The situation's label, or the source's wording (trimmed) when the mapping doesn't know it
+export const normalizeSituacao = (raw: string): string => {
+  const situation = classifySituacao(raw);
+  if (situation === SefazSituation.UNKNOWN || !raw.trim()) return raw.trim();
+  return situation;
+};
+
+export interface UnknownSituation {
+  situacao: string;
+  count: number;
+  files: string[];
+}
+
+// Wordings the mapping didn't recognise, most frequent first
+export const unknownSituations = (records: SefazRecord[]): UnknownSituation[] => {
+  const found = new Map<string, { count: number; files: Set<string> }>();
+  records.forEach(r => {
+    if (classifySituacao(r.situacao) !== SefazSituation.UNKNOWN) return;
+    const entry = found.get(r.situacao) ?? { count: 0, files: new Set<string>() };
+    entry.count++;
+    if (r.sourceFile) entry.files.add(r.sourceFile);
+    found.set(r.situacao, entry);
+  });
+  return Array.from(found, ([situacao, { count, files }]) => ({ situacao, count, files: Array.from(files) }))
+    .sort((a, b) => b.count - a.count || a.situacao.localeCompare(b.situacao));
+};
@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { serializeSession, parseSessionFile, createSessionMeta, getLastSessionId, setLastSessionId, saveSession, loadSession, EMPTY_SESSION_DATA } from './sessionStore';
+import { ReconciliationSession, MatchStatus } from '../types';
+
+const KEY_A = '26240112345678000190550010000001011000001012';
+
+const session: ReconciliationSession = {
+  ...createSessionMeta('Cliente SA - 01/2024', new Date('2024-02-05T10:00:00Z')),
+  data: {
+    ...EMPTY_SESSION_DATA,
+    accountingFileName: 'uniconta.xlsx',
+    accountingData: [{ id: KEY_A, chave: KEY_A, numero: '101', dataEmissao: '10/01/2024', valor: 100, sourceRow: ['101', KEY_A, 100] }],
+    results: [{ id: KEY_A, chave: KEY_A, numero: '101', serie: '1', emitente: '', data: '10/01/2024', valor: 100, situacaoSefaz: 'Não consta na SEFAZ', status: MatchStatus.MISSING_IN_SEFAZ }],
+    isCompared: true,
+    filters: { ...EMPTY_SESSION_DATA.filters, text: '101', valueMin: 50 }
+  }
+};
+
+describe('session files', () => {
+  it('round-trips a session under a new id', () => {
+    const imported = parseSessionFile(serializeSession(session));
+
+    expect(imported.id).not.toBe(session.id);
+    expect(imported.name).toBe(session.name);
+    expect(imported.createdAt).toBe(session.createdAt);
+    expect(imported.data).toEqual(session.data);
+  });
+
+  it('fills fields missing from older files', () => {
+    const { matchReviews, sorts, ...data } = session.data;
+    const imported = parseSessionFile(JSON.stringify({ format: 'confronta-session', version: 1, session: { ...session, data } }));
+
+    expect(imported.data.matchReviews).toEqual({});
+    expect(imported.data.sorts).toEqual([]);
+  });
+
+  it('rejects files that are not sessions', () => {
+    expect(() => parseSessionFile('{not json')).toThrow('JSON válido');
+    expect(() => parseSessionFile('{"format":"other"}')).toThrow('não é uma sessão');
+    expect(() => parseSessionFile('{"format":"confronta-session","version":99}')).toThrow('versão mais recente');
+    expect(() => parseSessionFile('{"format":"confronta-session","version":1,"session":{"data":{}}}')).toThrow('incompleta');
+  });
+});
+
+describe('stored sessions', () => {
+  it('fills filters missing from sessions saved by older versions', async () => {
+    const { annotation, category, empresa, ...oldFilters } = session.data.filters;
+    await saveSession({ ...session, data: { ...session.data, filters: oldFilters as typeof session.data.filters } });
+
+    const loaded = await loadSession(session.id);
+
+    expect(loaded?.data.filters).toEqual({ ...session.data.filters, annotation: 'all', category: '', empresa: '' });
+  });
+});
+
+describe('last session id', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('remembers and forgets the open session', () => {
+    setLastSessionId('abc');
+    expect(getLastSessionId()).toBe('abc');
+
+    setLastSessionId(null);
+    expect(getLastSessionId()).toBeNull();
+  });
+});
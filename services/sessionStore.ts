@@ -0,0 +1,198 @@
+import { ReconciliationSession, SessionData, SessionMeta, SessionSummary } from '../types';
+import { EMPTY_FILTERS, EMPTY_PERIOD } from './reconciler';
+
+const DB_NAME = 'confronta';
+const DB_VERSION = 1;
+// Summaries are kept apart so listing sessions doesn't load every record
+const SUMMARY_STORE = 'sessionSummaries';
+const DATA_STORE = 'sessionData';
+
+const LAST_SESSION_KEY = 'confronta.lastSessionId';
+
+const FILE_FORMAT = 'confronta-session';
+const FILE_VERSION = 1;
+
+export const EMPTY_SESSION_DATA: SessionData = {
+  accountingFileName: '',
+  sefazFileName: '',
+  accountingData: [],
+  sefazData: [],
+  sefazFiles: [],
+  accountingReport: null,
+  sefazReport: null,
+  accountingSheet: null,
+  accountingMapping: null,
+  results: [],
+  isCompared: false,
+  matchReviews: {},
+  annotations: {},
+  valueTolerance: { mode: 'cents', amount: 0 },
+  period: EMPTY_PERIOD,
+  filters: EMPTY_FILTERS,
+  sorts: [],
+  companyName: '',
+  companyCnpj: ''
+};
+
+export const createSessionMeta = (name: string, now: Date = new Date()): SessionMeta => ({
+  id: crypto.randomUUID(),
+  name,
+  createdAt: now.toISOString(),
+  updatedAt: now.toISOString()
+});
+
+const toSummary = ({ data, ...meta }: ReconciliationSession): SessionSummary => ({
+  ...meta,
+  accountingFileName: data.accountingFileName,
+  sefazFileName: data.sefazFileName,
+  resultCount: data.results.length
+});
+
+// --- IndexedDB ---
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(DATA_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+  }
+  return database;
+};
+
+// Queues writes on both stores; resolves once the transaction commits
+const write = async (queue: (summaries: IDBObjectStore, data: IDBObjectStore) => void): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Gravação da sessão interrompida.'));
+    queue(tx.objectStore(SUMMARY_STORE), tx.objectStore(DATA_STORE));
+  });
+};
+
+// Most recently updated first
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDatabase();
+  const summaries = await promisify<SessionSummary[]>(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll());
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadSession = async (id: string): Promise<ReconciliationSession | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE]);
+  const [summary, data] = await Promise.all([
+    promisify<SessionSummary | undefined>(tx.objectStore(SUMMARY_STORE).get(id)),
+    promisify<SessionData | undefined>(tx.objectStore(DATA_STORE).get(id))
+  ]);
+  if (!summary || !data) return null;
+  const { name, createdAt, updatedAt } = summary;
+  return { id, name, createdAt, updatedAt, data: { ...EMPTY_SESSION_DATA, ...data, filters: { ...EMPTY_FILTERS, ...data.filters } } };
+};
+
+// Stores the session with a fresh updatedAt, which is returned
+export const saveSession = async (session: ReconciliationSession): Promise<ReconciliationSession> => {
+  const saved = { ...session, updatedAt: new Date().toISOString() };
+  await write((summaries, data) => {
+    summaries.put(toSummary(saved));
+    data.put(saved.data, saved.id);
+  });
+  return saved;
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const db = await openDatabase();
+  const summary = await promisify<SessionSummary | undefined>(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).get(id));
+  if (!summary) return;
+  await write(summaries => summaries.put({ ...summary, name }));
+};
+
+export const duplicateSession = async (id: string): Promise<ReconciliationSession | null> => {
+  const session = await loadSession(id);
+  if (!session) return null;
+  return saveSession({ ...createSessionMeta(`${session.name} (cópia)`), data: session.data });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await write((summaries, data) => {
+    summaries.delete(id);
+    data.delete(id);
+  });
+};
+
+// Session reopened after a page refresh
+export const getLastSessionId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_SESSION_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastSessionId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(LAST_SESSION_KEY, id);
+    else localStorage.removeItem(LAST_SESSION_KEY);
+  } catch {
+    // Storage disabled: the session just won't reopen by itself
+  }
+};
+
+// --- JSON file ---
+
+export const serializeSession = (session: ReconciliationSession): string =>
+  JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, session });
+
+// Imported sessions get a new id, so importing twice never overwrites the first copy
+export const parseSessionFile = (text: string): ReconciliationSession => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('O arquivo não é um JSON válido.');
+  }
+  if (parsed?.format !== FILE_FORMAT) throw new Error('O arquivo não é uma sessão do Confronta.');
+  if (typeof parsed.version !== 'number' || parsed.version > FILE_VERSION) {
+    throw new Error('Sessão gerada por uma versão mais recente do Confronta.');
+  }
+
+  const session = parsed.session;
+  const data = session?.data;
+  if (!data || !Array.isArray(data.accountingData) || !Array.isArray(data.sefazData) || !Array.isArray(data.results)) {
+    throw new Error('Sessão incompleta: registros ausentes.');
+  }
+
+  const meta = createSessionMeta(typeof session.name === 'string' && session.name ? session.name : 'Sessão importada');
+  return {
+    ...meta,
+    createdAt: typeof session.createdAt === 'string' ? session.createdAt : meta.createdAt,
+    data: { ...EMPTY_SESSION_DATA, ...data, filters: { ...EMPTY_FILTERS, ...data.filters } }
+  };
+};
+
+export const exportSessionFile = (session: ReconciliationSession) => {
+  const blob = new Blob([serializeSession(session)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  const slug = session.name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '');
+  link.download = `sessao_${slug || 'confronta'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
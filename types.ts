@@ -1,10 +1,50 @@
+// Calendar date as YYYY-MM-DD, or YYYY-MM when only the month is known (taken from the access key);
+// '' when unknown. Set by the parsers (see toIsoDate), shown as DD/MM/YYYY by formatDate.
+// Kept as text so records cross the import worker, IndexedDB and session files unchanged, and sort as dates.
+export type IsoDate = string;
+
+// Month/year range the reconciliation covers, both ends as YYYY-MM ('' when open)
+export interface CompetencePeriod {
+  from: string;
+  to: string;
+}
+
 export interface AccountingRecord {
   id: string; // Unique ID (usually key)
   numero: string;
-  dataEmissao: string;
+  dataEmissao: IsoDate;
   valor: number;
   chave: string;
+  keyError?: string; // Set when the key fails validation; such records are not matched
   sourceRow: any;
+  sourceFile?: string;
+  sourceLine?: number; // 1-based row in the source file, when it has rows
+}
+
+export type AccountingField = 'chave' | 'numero' | 'valor' | 'data';
+
+// Column index chosen for each field (-1 when the sheet has no such column)
+export type AccountingColumnMapping = Record<AccountingField, number>;
+
+// Raw accounting sheet, kept so the column mapping can be reviewed before building records
+export interface AccountingSheet {
+  fileName: string;
+  sheetName: string;
+  headerRow: number; // 0-based row of the header within the worksheet
+  headers: string[];
+  rows: any[][]; // data rows, header excluded
+}
+
+export interface AccountingWorkbook {
+  fileName: string;
+  sheets: { name: string; rows: any[][] }[];
+}
+
+// Worksheet row that looks like the header of the accounting export
+export interface HeaderCandidate {
+  sheetName: string;
+  headerRow: number;
+  score: number; // number of fields recognised in the row
 }
 
 export interface SefazRecord {
@@ -12,17 +52,131 @@ export interface SefazRecord {
   chave: string;
   numero: string;
   serie: string;
-  situacao: string; // Autorizada, Cancelada, etc.
+  situacao: string; // a SefazSituation label, or the source's own wording when the mapping doesn't know it
   emitente: string;
-  data: string;
+  data: IsoDate;
+  valor?: number; // NF-e total, undefined when the export has no value column
+  cnpjDestinatario?: string; // recipient CNPJ/CPF (digits), when the source lists it
+  keyError?: string; // Set when the key fails validation; such records are not matched
   sourceRow: any;
+  sourceFile?: string;
+  sourceLine?: number; // 1-based row in the source file, when it has rows
+}
+
+// Cancellation registered through a procEventoNFe; applied over the matching key after dedup
+export interface NfeCancellation {
+  chave: string;
+  situacao: string;
+  data: IsoDate;
+  fileName: string;
+}
+
+// One SEFAZ file as parsed, kept apart so files can be added and removed one at a time
+export interface SefazFileImport {
+  fileName: string;
+  format: string; // label of the adapter that read it
+  records: SefazRecord[];
+  cancellations: NfeCancellation[];
+  skipped: SkippedRow[];
+  rowsRead: number;
+  columns: Record<string, string>;
+}
+
+// --- Import report ---
+
+export interface SkippedRow {
+  fileName: string;
+  row?: number; // 1-based, absent for sources without rows (XML documents)
+  reason: string;
+}
+
+export interface DuplicateKey {
+  chave: string;
+  // Every place the key was found; the first one is the record kept
+  occurrences: { fileName: string; row?: number }[];
+}
+
+export interface FileImportSummary {
+  fileName: string;
+  format: string;
+  rowsRead: number;
+  recordsImported: number;
+  columns: Record<string, string>; // field -> header it was read from
+}
+
+export interface ImportReport {
+  files: FileImportSummary[];
+  skipped: SkippedRow[];
+  duplicates: DuplicateKey[];
+}
+
+// Parsing progress of one file, from 0 to 1
+export type ProgressCallback = (fraction: number) => void;
+
+export interface FileProgress {
+  fileName: string;
+  fraction: number;
+}
+
+export interface ImportResult<T> {
+  records: T[];
+  report: ImportReport;
+}
+
+// Fixed-width segments of the 44-digit NF-e access key
+export interface NfeKeyParts {
+  uf: string;
+  ano: string; // YY
+  mes: string; // MM
+  cnpj: string; // Issuer CNPJ/CPF
+  modelo: string;
+  serie: string;
+  numero: string;
+  tipoEmissao: string;
+  codigo: string;
+  dv: string;
+}
+
+// Situation of a note at SEFAZ, whatever the wording of the source (mapping in services/sefazSituation.ts)
+export enum SefazSituation {
+  AUTHORISED = 'Autorizada',
+  CANCELLED = 'Cancelada',
+  PENDING_CANCELLATION = 'Cancelamento extemporâneo', // requested after the deadline, awaiting SEFAZ's decision
+  DENIED = 'Denegada', // irregular issuer or recipient: the note has no legal effect
+  VOIDED_RANGE = 'Inutilizada', // number voided by the issuer, no note was issued
+  CONTINGENCY = 'Contingência', // issued in contingency (EPEC, FS-DA...), authorisation not registered yet
+  UNKNOWN = 'Não reconhecida' // reconciled as authorised and listed so the mapping can be extended
 }
 
 export enum MatchStatus {
   MATCHED = 'Lançada',
   MISSING_IN_ACCOUNTING = 'Não Lançada',
   MISSING_IN_SEFAZ = 'Não encontrada na SEFAZ',
-  CANCELLED = 'Cancelada'
+  VALUE_DIVERGENCE = 'Valor divergente',
+  CANCELLED = 'Cancelada',
+  CANCELLED_BUT_BOOKED = 'Cancelada mas lançada',
+  MATCHED_BY_NUMBER = 'Conciliada por número',
+  IGNORED_BY_RULE = 'Desconsiderada',
+  OUT_OF_PERIOD = 'Fora do período', // unmatched, dated outside the competence period chosen for the run
+  DENIED = 'Denegada',
+  DENIED_BUT_BOOKED = 'Denegada mas lançada',
+  VOIDED = 'Inutilizada',
+  VOIDED_BUT_BOOKED = 'Inutilizada mas lançada',
+  PENDING_CANCELLATION = 'Cancelamento pendente',
+  IN_CONTINGENCY = 'Em contingência'
+}
+
+// Auditor decision on a match found without the access key
+export type MatchReview = 'accepted' | 'rejected';
+
+// What the auditor decided about a note after looking into it
+export type AnnotationResolution = 'open' | 'resolved' | 'ignored';
+
+export interface NoteAnnotation {
+  category: string; // justification, e.g. "Devolvida"; '' when only commented
+  comment: string;
+  resolution: AnnotationResolution;
+  updatedAt: string; // ISO timestamp
 }
 
 export interface ComparisonResult {
@@ -30,18 +184,152 @@ export interface ComparisonResult {
   chave: string;
   numero: string;
   serie: string;
-  data: string;
+  emitente: string;
+  data: IsoDate;
   valor: number | string;
+  valorSefaz?: number;
+  valorContabil?: number;
+  diferenca?: number; // valorContabil - valorSefaz, only when both are known
   situacaoSefaz: string;
   status: MatchStatus;
+  // Company dimension, set by reconcile (absent from sessions saved before it existed; see companyOf)
+  cnpjEmitente?: string; // from the access key
+  cnpjDestinatario?: string;
+  empresa?: string; // recipient CNPJ the note is filed under, '' when no source says who received it
   sefazRecord?: SefazRecord;
   accountingRecord?: AccountingRecord;
+  matchConfidence?: number; // 0-100, only for matches by number/series/issuer
+  matchReview?: MatchReview;
+  annotation?: NoteAnnotation; // attached from the session's annotations, never by reconcile
+  ignoredBy?: string; // name of the ignore rule that set IGNORED_BY_RULE
+  originalStatus?: MatchStatus; // status before the ignore rule applied
+}
+
+// Recurring exception (energy, telecom, a given series...) taken out of the pending lists.
+// Every filled-in criterion must match; empty ones match anything.
+export interface IgnoreRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  cnpjs: string[]; // issuer CNPJ, read from the access key
+  series: string[];
+  situacao: string; // text contained in situacaoSefaz
+  valueMin?: number;
+  valueMax?: number;
+  chaves: string[];
 }
 
 export interface SummaryStats {
   total: number;
   matched: number;
   missingInAccounting: number;
+  missingInSefaz: number;
+  valueDivergence: number;
   cancelled: number;
+  cancelledButBooked: number;
+  matchedByNumber: number;
+  ignoredByRule: number;
+  outOfPeriod: number;
+  denied: number;
+  deniedButBooked: number;
+  voided: number;
+  voidedButBooked: number;
+  pendingCancellation: number;
+  inContingency: number;
   others: number;
-}
\ No newline at end of file
+}
+
+// How a note changed between the previous month's run and the current one
+export enum RunChange {
+  NEWLY_PENDING = 'Nova pendência',
+  STILL_PENDING = 'Ainda pendente',
+  RESOLVED = 'Resolvida',
+  NEWLY_CANCELLED = 'Nova cancelada',
+  NOT_IN_CURRENT = 'Fora da execução atual'
+}
+
+export interface RunDiffEntry {
+  id: string;
+  chave: string;
+  numero: string;
+  emitente: string;
+  data: IsoDate;
+  valor: number | string;
+  change: RunChange;
+  previousStatus?: MatchStatus; // absent when the note is new in the current run
+  currentStatus?: MatchStatus; // absent when the note left the current run
+}
+
+export type ToleranceMode = 'cents' | 'percent';
+
+export interface ValueTolerance {
+  mode: ToleranceMode;
+  amount: number; // cents when mode is 'cents', percentage of the SEFAZ value otherwise
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortConfig {
+  key: keyof ComparisonResult;
+  direction: SortDirection;
+}
+
+export interface ResultFilters {
+  text: string;
+  statuses: MatchStatus[]; // empty means every status
+  dateFrom: string; // YYYY-MM-DD, '' when open
+  dateTo: string;
+  valueMin?: number;
+  valueMax?: number;
+  serie: string;
+  emitente: string;
+  annotation: AnnotationFilter;
+  category: string; // justification category, '' for any
+  empresa: string; // company CNPJ (see ComparisonResult.empresa), '' for every company
+}
+
+// 'unsolved' = neither resolved nor ignored, annotated or not
+export type AnnotationFilter = 'all' | 'annotated' | 'none' | 'unsolved' | 'resolved' | 'ignored';
+
+// --- Sessions ---
+
+// Everything needed to reopen a reconciliation where it was left
+export interface SessionData {
+  accountingFileName: string;
+  sefazFileName: string;
+  accountingData: AccountingRecord[];
+  sefazData: SefazRecord[];
+  sefazFiles: SefazFileImport[]; // empty in sessions saved before files were kept one by one
+  accountingReport: ImportReport | null;
+  sefazReport: ImportReport | null;
+  accountingSheet: AccountingSheet | null; // header only, rows are not kept
+  accountingMapping: AccountingColumnMapping | null;
+  results: ComparisonResult[];
+  isCompared: boolean;
+  matchReviews: Record<string, MatchReview>;
+  annotations: Record<string, NoteAnnotation>; // by result id
+  valueTolerance: ValueTolerance;
+  period: CompetencePeriod;
+  filters: ResultFilters;
+  sorts: SortConfig[];
+  companyName: string;
+  companyCnpj: string;
+}
+
+export interface SessionMeta {
+  id: string;
+  name: string; // e.g. client + competence
+  createdAt: string; // ISO timestamps
+  updatedAt: string;
+}
+
+// What the session list shows, without loading the records
+export interface SessionSummary extends SessionMeta {
+  accountingFileName: string;
+  sefazFileName: string;
+  resultCount: number;
+}
+
+export interface ReconciliationSession extends SessionMeta {
+  data: SessionData;
+}
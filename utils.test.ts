@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { parseCurrency, parseKeyParts, toIsoDate, formatDate, competenceOf, validateNfeKey, computeKeyDv, formatCnpj } from './utils';
+
+describe('parseCurrency', () => {
+  it('parses Brazilian formatted values', () => {
+    expect(parseCurrency('R$ 1.234,56')).toBe(1234.56);
+    expect(parseCurrency('1234,5')).toBe(1234.5);
+    expect(parseCurrency('1.500')).toBe(1500);
+    expect(parseCurrency('R$ 1.500')).toBe(1500);
+    expect(parseCurrency('1.234.567')).toBe(1234567);
+  });
+
+  it('reads amounts in parentheses as negative', () => {
+    expect(parseCurrency('(100,00)')).toBe(-100);
+    expect(parseCurrency('R$ (1.234,56)')).toBe(-1234.56);
+  });
+
+  it('parses plain decimal values', () => {
+    expect(parseCurrency('1234.56')).toBe(1234.56);
+    expect(parseCurrency('1,234.56')).toBe(1234.56);
+    expect(parseCurrency(42)).toBe(42);
+  });
+
+  it('returns undefined for empty or invalid input', () => {
+    expect(parseCurrency('')).toBeUndefined();
+    expect(parseCurrency('  ')).toBeUndefined();
+    expect(parseCurrency('abc')).toBeUndefined();
+    expect(parseCurrency(undefined)).toBeUndefined();
+  });
+});
+
+describe('parseKeyParts', () => {
+  it('splits a 44-digit key into its segments', () => {
+    expect(parseKeyParts('26240112345678000190550010000001011000001012')).toMatchObject({
+      uf: '26', ano: '24', mes: '01', cnpj: '12345678000190', modelo: '55', serie: '001', numero: '000000101'
+    });
+  });
+
+  it('returns null for keys of the wrong length', () => {
+    expect(parseKeyParts('2624011234')).toBeNull();
+  });
+});
+
+describe('toIsoDate', () => {
+  it('normalises the date formats found in the inputs', () => {
+    expect(toIsoDate('2024-01-10')).toBe('2024-01-10');
+    expect(toIsoDate('2024-01-10T09:30:00-03:00')).toBe('2024-01-10');
+    expect(toIsoDate('10/01/2024')).toBe('2024-01-10');
+    expect(toIsoDate('10/01/2024 09:30:00')).toBe('2024-01-10');
+    expect(toIsoDate('1/2/24')).toBe('2024-02-01');
+    expect(toIsoDate('10-01-2024')).toBe('2024-01-10');
+    expect(toIsoDate('10.01.2024')).toBe('2024-01-10');
+    expect(toIsoDate('20240110')).toBe('2024-01-10');
+    expect(toIsoDate('01/2024')).toBe('2024-01');
+    expect(toIsoDate('2024-01')).toBe('2024-01');
+    expect(toIsoDate(45301)).toBe('2024-01-10');
+    expect(toIsoDate('45301')).toBe('2024-01-10');
+    expect(toIsoDate(new Date(2024, 0, 10))).toBe('2024-01-10');
+  });
+
+  it('rejects text and impossible dates', () => {
+    expect(toIsoDate('')).toBe('');
+    expect(toIsoDate('sem data')).toBe('');
+    expect(toIsoDate('31/02/2024')).toBe('');
+    expect(toIsoDate('13/2024')).toBe('');
+    expect(toIsoDate(101)).toBe('');
+    expect(toIsoDate(undefined)).toBe('');
+  });
+});
+
+describe('formatDate', () => {
+  it('shows normalised dates day-first and keeps older text as is', () => {
+    expect(formatDate('2024-01-10')).toBe('10/01/2024');
+    expect(formatDate('2024-01')).toBe('01/2024');
+    expect(formatDate('10/01/2024')).toBe('10/01/2024');
+    expect(formatDate('')).toBe('');
+    expect(competenceOf('10/01/2024')).toBe('2024-01');
+  });
+});
+
+describe('validateNfeKey', () => {
+  const VALID = '26240112345678000190550010000001011000001012';
+  // Rebuilds the check digit so only the segment under test is wrong
+  const withDv = (key43: string) => key43 + computeKeyDv(key43);
+
+  it('accepts a well-formed key, with or without formatting', () => {
+    expect(validateNfeKey(VALID)).toBeNull();
+    expect(validateNfeKey(VALID.replace(/(\d{4})/g, '$1 '))).toBeNull();
+  });
+
+  it('rejects truncated keys and Excel scientific notation', () => {
+    expect(validateNfeKey(VALID.substring(0, 40))).toContain('40 dígitos');
+    expect(validateNfeKey('2.62401E+43')).toContain('notação científica');
+  });
+
+  it('rejects a wrong check digit', () => {
+    expect(validateNfeKey(VALID.substring(0, 43) + '3')).toBe('Dígito verificador inválido');
+  });
+
+  it('rejects unknown models, UF codes and dates', () => {
+    expect(validateNfeKey(withDv('2624011234567800019057001000000101100000101'))).toContain('Modelo 57');
+    expect(validateNfeKey(withDv('9924011234567800019055001000000101100000101'))).toContain('UF 99');
+    expect(validateNfeKey(withDv('2624131234567800019055001000000101100000101'))).toContain('13/24');
+    expect(validateNfeKey(withDv('2603011234567800019055001000000101100000101'))).toContain('01/03');
+  });
+});
+
+describe('formatCnpj', () => {
+  it('masks a 14-digit CNPJ', () => {
+    expect(formatCnpj('12345678000190')).toBe('12.345.678/0001-90');
+    expect(formatCnpj('12.345.678/0001-90')).toBe('12.345.678/0001-90');
+  });
+
+  it('keeps other input as typed', () => {
+    expect(formatCnpj('123')).toBe('123');
+  });
+});
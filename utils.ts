@@ -1,9 +1,12 @@
+import { NfeKeyParts, IsoDate } from './types';
+
 export const normalizeKey = (key: string): string => {
   if (!key) return '';
   return key.replace(/[^0-9]/g, '');
 };
 
-export const extractDateFromKey = (key: string): string => {
+// Month of issue as YYYY-MM: the key carries no day
+export const extractDateFromKey = (key: string): IsoDate => {
   const cleanKey = normalizeKey(key);
   if (cleanKey.length !== 44) return '';
   
@@ -12,7 +15,126 @@ export const extractDateFromKey = (key: string): string => {
   const yy = cleanKey.substring(2, 4);
   const mm = cleanKey.substring(4, 6);
   
-  return `${mm}/20${yy}`;
+  return `20${yy}-${mm}`;
+};
+
+export const parseKeyParts = (key: string): NfeKeyParts | null => {
+  const cleanKey = normalizeKey(key);
+  if (cleanKey.length !== 44) return null;
+
+  return {
+    uf: cleanKey.substring(0, 2),
+    ano: cleanKey.substring(2, 4),
+    mes: cleanKey.substring(4, 6),
+    cnpj: cleanKey.substring(6, 20),
+    modelo: cleanKey.substring(20, 22),
+    serie: cleanKey.substring(22, 25),
+    numero: cleanKey.substring(25, 34),
+    tipoEmissao: cleanKey.substring(34, 35),
+    codigo: cleanKey.substring(35, 43),
+    dv: cleanKey.substring(43, 44)
+  };
+};
+
+// --- Access key validation ---
+
+// IBGE codes of the 27 federative units
+const UF_CODES = ['11', '12', '13', '14', '15', '16', '17', '21', '22', '23', '24', '25', '26', '27', '28', '29',
+  '31', '32', '33', '35', '41', '42', '43', '50', '51', '52', '53'];
+// 55: NF-e, 65: NFC-e
+const NFE_MODELS = ['55', '65'];
+// NF-e became mandatory in 2006; older year segments cannot be real
+const FIRST_NFE_YEAR = 6;
+
+// Mod-11 check digit over the first 43 digits (weights 2..9 from right to left)
+export const computeKeyDv = (key43: string): number => {
+  let sum = 0;
+  let weight = 2;
+  for (let i = key43.length - 1; i >= 0; i--) {
+    sum += parseInt(key43[i], 10) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+};
+
+// Returns why the key is not a valid NF-e access key, or null when it is valid
+export const validateNfeKey = (rawKey: string): string | null => {
+  const raw = (rawKey ?? '').toString().trim();
+  if (/^\d+([.,]\d+)?e\+?\d+$/i.test(raw)) return 'Chave em notação científica (formato do Excel)';
+
+  const parts = parseKeyParts(raw);
+  if (!parts) return `Chave com ${normalizeKey(raw).length} dígitos (esperado 44)`;
+
+  const cleanKey = normalizeKey(raw);
+  if (computeKeyDv(cleanKey.substring(0, 43)) !== parseInt(parts.dv, 10)) return 'Dígito verificador inválido';
+  if (!NFE_MODELS.includes(parts.modelo)) return `Modelo ${parts.modelo} inválido (esperado 55 ou 65)`;
+  if (!UF_CODES.includes(parts.uf)) return `Código de UF ${parts.uf} inválido`;
+
+  const month = parseInt(parts.mes, 10);
+  if (month < 1 || month > 12 || parseInt(parts.ano, 10) < FIRST_NFE_YEAR) return `Ano/mês ${parts.mes}/${parts.ano} inválido`;
+
+  return null;
+};
+
+// --- Dates ---
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+// YYYY-MM-DD (or YYYY-MM without a day), '' when the parts are not a real calendar date
+const isoFromParts = (year: number, month: number, day?: number): IsoDate => {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || year < 1900 || year > 2099) return '';
+  if (day === undefined) return `${year}-${pad2(month)}`;
+  // Day 0 of the next month is the last day of this one
+  if (day < 1 || day > new Date(year, month, 0).getDate()) return '';
+  return `${year}-${pad2(month)}-${pad2(day)}`;
+};
+
+// Excel counts days from 1899-12-30; below this serial a number is more likely a note number than a date
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MIN_EXCEL_SERIAL = 36526; // 2000-01-01
+const MAX_EXCEL_SERIAL = 73051; // 2100-01-01
+
+const fromExcelSerial = (serial: number): IsoDate => {
+  if (serial < MIN_EXCEL_SERIAL || serial >= MAX_EXCEL_SERIAL) return '';
+  const date = new Date(EXCEL_EPOCH + Math.floor(serial) * 86400000);
+  return isoFromParts(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+};
+
+// Normalises the date formats found in the inputs: ISO with or without time ("2024-01-10T09:30:00-03:00"),
+// DD/MM/YYYY, DD/MM/YY, DD-MM-YYYY, DD.MM.YYYY, YYYYMMDD, MM/YYYY, YYYY-MM, Excel serial days and Date objects.
+// Day-first always: these files come from Brazilian systems. '' when the value is not a date.
+export const toIsoDate = (value: unknown): IsoDate => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? '' : isoFromParts(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+  if (typeof value === 'number') return fromExcelSerial(value);
+  if (typeof value !== 'string') return '';
+
+  const text = value.trim();
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:$|[T\s])/.exec(text) || /^(\d{4})\/(\d{1,2})\/(\d{1,2})(?:$|\s)/.exec(text);
+  if (match) return isoFromParts(+match[1], +match[2], +match[3]);
+  match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?:$|[\sT,])/.exec(text);
+  if (match) return isoFromParts(+match[3], +match[2], +match[1]);
+  match = /^(\d{4})-(\d{1,2})$/.exec(text);
+  if (match) return isoFromParts(+match[1], +match[2]);
+  match = /^(\d{1,2})[/.-](\d{4})$/.exec(text);
+  if (match) return isoFromParts(+match[2], +match[1]);
+  match = /^(\d{4})(\d{2})(\d{2})$/.exec(text);
+  if (match) return isoFromParts(+match[1], +match[2], +match[3]);
+  if (/^\d{5}(\.\d+)?$/.test(text)) return fromExcelSerial(parseFloat(text));
+  return '';
+};
+
+// YYYY-MM competence (month/year) of a date, '' when unknown
+export const competenceOf = (date: unknown): string => toIsoDate(date).substring(0, 7);
+
+// DD/MM/YYYY, or MM/YYYY for dates taken from the key; other text (sessions saved before dates were normalised) as is
+export const formatDate = (date: string): string => {
+  const match = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(date || '');
+  if (!match) return date || '';
+  return match[3] ? `${match[3]}/${match[2]}/${match[1]}` : `${match[2]}/${match[1]}`;
 };
 
 export const normalizeHeader = (text: string): string => {
@@ -26,13 +148,43 @@ export const normalizeHeader = (text: string): string => {
       .replace(/[^a-z0-9]+/g, "_");
 };
 
+// Parses "R$ 1.234,56", "1.500", "1,234.56", "1234.56" or "(100,00)" into a number; undefined when not a value
+export const parseCurrency = (text: string | number | undefined | null): number | undefined => {
+  if (text === undefined || text === null) return undefined;
+  if (typeof text === 'number') return isNaN(text) ? undefined : text;
+
+  let clean = text.replace('R$', '').replace(/\s/g, '');
+  if (!clean) return undefined;
+
+  // Accounting notation for negatives
+  const parenthesised = /^\((.*)\)$/.exec(clean);
+  if (parenthesised) clean = parenthesised[1];
+
+  if (clean.includes(',') && clean.lastIndexOf(',') > clean.lastIndexOf('.')) {
+    // Brazilian format: dots are thousand separators, comma is the decimal mark
+    clean = clean.replace(/\./g, '').replace(',', '.');
+  } else if (clean.includes(',')) {
+    // "1,234.56": the comma groups thousands
+    clean = clean.replace(/,/g, '');
+  } else if ((clean.match(/\./g) ?? []).length > 1 || /\.\d{3}$/.test(clean)) {
+    // "1.500" and "1.234.567" only group thousands
+    clean = clean.replace(/\./g, '');
+  }
+
+  const num = parseFloat(clean);
+  if (isNaN(num)) return undefined;
+  return parenthesised ? -num : num;
+};
+
 export const formatCurrency = (value: number | string) => {
   const num = typeof value === 'string' ? parseFloat(value) : value;
   if (isNaN(num)) return 'R$ 0,00';
   return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(num);
 };
 
-export const formatDate = (dateStr: string) => {
-  if (!dateStr) return '-';
-  return dateStr; 
-};
\ No newline at end of file
+// 14 digits as 00.000.000/0000-00; anything else is returned as typed
+export const formatCnpj = (value: string): string => {
+  const digits = normalizeKey(value);
+  if (digits.length !== 14) return value;
+  return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+};